@@ -0,0 +1,111 @@
+import { homedir } from 'node:os'
+import { join, dirname } from 'node:path'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { createInterface } from 'node:readline/promises'
+import { newKdfParams, deriveVaultKey, sealJson, openJson, isSealed, type KdfParams, type SealedBlob } from '../src/vault'
+import { migrateSession } from '../src/protocol'
+import type { SessionData, SerializedKeyPair } from '../src/types/session'
+
+export const XCHAT_HOME = process.env.XCHAT_HOME || join(homedir(), '.xchat')
+
+export const IDENTITY_PATH = join(XCHAT_HOME, 'identity.json')
+export const SUPABASE_PATH = join(XCHAT_HOME, 'supabase.json')
+export const DEFAULT_SESSION_PATH = join(XCHAT_HOME, 'session.json')
+
+// Long-term identity key — the CLI's equivalent of the browser account's `id`
+export interface IdentityFile {
+  v: 1
+  id: SerializedKeyPair
+}
+
+// ─── Files ───────────────────────────────────────────────────────
+
+export async function readJson<T>(path: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(path, 'utf8')) as T
+  } catch (err: any) {
+    if (err.code === 'ENOENT') return null
+    throw new Error(`Cannot read ${path}: ${err.message}`)
+  }
+}
+
+// Secret material — readable by the owner only
+export async function writeJson(path: string, value: unknown): Promise<void> {
+  await mkdir(dirname(path), { recursive: true, mode: 0o700 })
+  await writeFile(path, JSON.stringify(value, null, 2) + '\n', { mode: 0o600 })
+}
+
+// ─── Prompts ─────────────────────────────────────────────────────
+
+// Prompts go to stderr so stdout stays scriptable
+export async function prompt(question: string): Promise<string> {
+  const rl = createInterface({ input: process.stdin, output: process.stderr })
+  try {
+    return (await rl.question(question)).trim()
+  } finally {
+    rl.close()
+  }
+}
+
+// XCHAT_PASSPHRASE wins so scripts never block on a prompt
+export async function getPassphrase(confirm = false): Promise<string> {
+  if (process.env.XCHAT_PASSPHRASE) return process.env.XCHAT_PASSPHRASE
+  const passphrase = await prompt('Passphrase: ')
+  if (confirm && (await prompt('Repeat passphrase: ')) !== passphrase) {
+    throw new Error('Passphrases do not match')
+  }
+  return passphrase
+}
+
+// ─── Session File ────────────────────────────────────────────────
+// Holds exactly what the web app exports: a SessionData object, either in
+// the clear or sealed with a passphrase (SealedBlob v3).
+
+export interface OpenedSession {
+  data: SessionData
+  save: () => Promise<void>
+  seal: () => Promise<SealedBlob> // for export — reuses the file's passphrase when sealed
+}
+
+export async function openSession(path: string): Promise<OpenedSession> {
+  const stored = await readJson<SessionData | SealedBlob>(path)
+  if (!stored) throw new Error(`No session at ${path} — run "xchat handshake" or pass --session`)
+
+  let key: Uint8Array | null = null
+  let params: KdfParams | null = null
+  let data: unknown
+
+  if (isSealed(stored)) {
+    params = stored.kdf
+    key = await deriveVaultKey(await getPassphrase(), params)
+    data = openJson<unknown>(key, stored)
+    if (!data) throw new Error('Wrong passphrase')
+  } else {
+    data = stored
+  }
+  // Older formats are upgraded in memory and written back on the next save
+  const session = migrateSession(data)
+
+  return {
+    data: session,
+    save: () => writeJson(path, key && params ? sealJson(key, params, session) : session),
+    seal: async () => {
+      if (!key || !params) {
+        params = newKdfParams()
+        key = await deriveVaultKey(await getPassphrase(true), params)
+      }
+      return sealJson(key, params, session)
+    },
+  }
+}
+
+// New session files are sealed when a passphrase is provided via XCHAT_PASSPHRASE
+export async function createSessionFile(path: string, session: SessionData): Promise<void> {
+  if (process.env.XCHAT_PASSPHRASE) {
+    const params = newKdfParams()
+    const key = await deriveVaultKey(process.env.XCHAT_PASSPHRASE, params)
+    await writeJson(path, sealJson(key, params, session))
+  } else {
+    await writeJson(path, session)
+  }
+}
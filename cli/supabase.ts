@@ -0,0 +1,93 @@
+import { ref } from 'vue'
+import { createClient } from '@supabase/supabase-js'
+import { useEnvelopes, CHUNK_SIZE } from '../src/composables/useEnvelopes'
+import type { DbSettings, DbMessageRow, DbRoute } from '../src/types/db'
+import type { FileStore } from '../src/files'
+import { log } from '../src/log'
+
+const BATCH_SIZE = 10
+
+// Polling-only Supabase client speaking the same envelope/chunk protocol as
+// the web app's useSupabase composable.
+export function createSupabaseTransport(settings: DbSettings, route: DbRoute) {
+  if (!settings.url || !settings.anonKey || !settings.table || !settings.column) {
+    throw new Error('Supabase is not configured — pass --url, --anon-key, --table and --column or create supabase.json')
+  }
+
+  const client = createClient(settings.url, settings.anonKey, {
+    auth: { persistSession: false },
+  })
+  const envelopes = useEnvelopes({ routes: ref([route]), chunkSize: CHUNK_SIZE, tag: 'Supabase' })
+  let caughtUp = false // the first poll looks back over older mailbox tags
+
+  async function send(encryptedBase64: string): Promise<void> {
+    const rows = envelopes.frame(route, encryptedBase64).map((envelope) => {
+      const wire = envelopes.address(route, envelope)!
+      const row: Record<string, string> = { [settings.column]: JSON.stringify(wire) }
+      if (settings.senderColumn) row[settings.senderColumn] = wire.s
+      return row
+    })
+
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+      const { error } = await client.from(settings.table).insert(rows.slice(i, i + BATCH_SIZE))
+      if (error) throw new Error(`Insert failed: ${error.message}`)
+    }
+  }
+
+  async function remove(pk: string | number): Promise<void> {
+    const { error } = await client.from(settings.table).delete().eq(settings.idColumn, pk)
+    if (error) log.error(`[Supabase] Delete failed: ${error.message}`)
+  }
+
+  // Returns complete messages; chunk rows are deleted once reassembled
+  async function poll(): Promise<DbMessageRow[]> {
+    envelopes.cleanupStaleChunks(pks => pks.forEach(remove))
+
+    let query = client
+      .from(settings.table)
+      .select(`${settings.idColumn}, ${settings.column}`)
+      .order(settings.idColumn, { ascending: true })
+    if (settings.senderColumn) {
+      query = query.in(settings.senderColumn, envelopes.pollTags(!caughtUp))
+    }
+
+    const { data, error } = await query
+    if (error) throw new Error(`Poll failed: ${error.message}`)
+    caughtUp = true
+
+    const incoming: DbMessageRow[] = []
+    for (const rec of (data ?? []) as Record<string, any>[]) {
+      try {
+        const result = envelopes.receive(rec[settings.column], rec[settings.idColumn])
+        if (!result) continue
+        await Promise.all(result.chunkPks.map(remove))
+        incoming.push(result.row)
+      } catch {
+        // skip malformed rows
+      }
+    }
+    return incoming
+  }
+
+  // Storage bucket for large attachments, as in the web app
+  const fileStore: FileStore | null = !settings.bucket ? null : {
+    kind: 'supabase',
+    async put(path, data) {
+      const { error } = await client.storage
+        .from(settings.bucket)
+        .upload(path, new Blob([data as Uint8Array<ArrayBuffer>]), { contentType: 'application/octet-stream', upsert: true })
+      if (error) throw new Error(`Upload failed: ${error.message}`)
+    },
+    async get(path) {
+      const { data, error } = await client.storage.from(settings.bucket).download(path)
+      if (error || !data) throw new Error(`Download failed: ${error?.message ?? 'empty object'}`)
+      return new Uint8Array(await data.arrayBuffer())
+    },
+    async remove(paths) {
+      const { error } = await client.storage.from(settings.bucket).remove(paths)
+      if (error) log.error(`[Supabase] Storage delete failed: ${error.message}`)
+    },
+  }
+
+  return { send, poll, remove, fileStore }
+}
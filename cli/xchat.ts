@@ -0,0 +1,424 @@
+import { parseArgs } from 'node:util'
+import { readFile, writeFile, mkdir, stat } from 'node:fs/promises'
+import { openAsBlob } from 'node:fs'
+import { basename, extname, join } from 'node:path'
+import { createInterface } from 'node:readline'
+import {
+  generateKeyPair,
+  encodeHandshakeCode,
+  decodeHandshakeCode,
+  computeSafetyNumber,
+  bytesToBase64,
+  base64ToBytes,
+  encodeBase64,
+  decodeBase64,
+  newMessageId,
+  isControlPayload,
+  type Attachment,
+  type MessagePayload,
+} from '../src/crypto'
+import type { DbSettings, DbRoute } from '../src/types/db'
+import type { SessionData } from '../src/types/session'
+import { RatchetSession, serializeKeyPair, restoreKeyPair } from '../src/ratchet'
+import { encryptFile, decryptFile, chunkPaths, INLINE_LIMIT, type FileStore } from '../src/files'
+import { mailboxKey } from '../src/mailbox'
+import { SESSION_VERSION, hasFeature, FEATURE_PADDED } from '../src/protocol'
+import { parseInvite, encodeInvite } from '../src/invite'
+import { armor, dearmor, PartBuffer } from '../src/armor'
+import { receivedTimer } from '../src/expiry'
+import { setLogLevel } from '../src/log'
+import { provisioningSql, joinSql, probeBackend, PROBE_LABELS } from '../src/provision'
+import { createClient } from '@supabase/supabase-js'
+import { createSupabaseTransport } from './supabase'
+import {
+  IDENTITY_PATH,
+  SUPABASE_PATH,
+  DEFAULT_SESSION_PATH,
+  readJson,
+  writeJson,
+  prompt,
+  openSession,
+  createSessionFile,
+  type IdentityFile,
+} from './store'
+
+const USAGE = `Usage: xchat <command> [options]
+
+Commands:
+  keygen                 Create this machine's identity key
+  handshake              Start a chat: print our invite code, read the partner's
+  send [text...]         Encrypt and send a message (text from stdin if omitted)
+  listen                 Receive, decrypt and print messages
+  export-session         Print the session as JSON for "Import Session" in the web app
+  setup-sql              Print the SQL that sets up the Supabase table, policies and Realtime
+  check-backend          Probe the Supabase backend (insert/select/delete/Realtime/Storage)
+
+Options:
+  --session <file>       Session file (default: ~/.xchat/session.json)
+  --peer <code>          handshake: partner's invite link or code (prompted if omitted)
+  --name <name>          handshake: contact name
+  --force                keygen/handshake: overwrite existing files
+  --file <path>          send: attach a file (repeatable)
+  --manual               send: print armored ciphertext instead of sending;
+                         listen: read armored ciphertexts (or bare ones, one per line) from stdin
+  --split <chars>        send --manual: split into parts of at most this many characters
+  --once                 listen: poll once and exit
+  --out <dir>            listen: directory for received attachments (default: .)
+  --json                 listen: print one JSON object per message
+  --plain                export-session: do not seal with a passphrase
+  --url, --anon-key, --table, --column, --id-column, --sender-column, --bucket, --interval
+                         Supabase settings (default: ~/.xchat/supabase.json)
+  --verbose              Show the protocol log (keys and contents stay redacted)
+`
+
+const { values: opts, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    session: { type: 'string', default: DEFAULT_SESSION_PATH },
+    peer: { type: 'string' },
+    name: { type: 'string' },
+    force: { type: 'boolean', default: false },
+    file: { type: 'string', multiple: true, default: [] },
+    manual: { type: 'boolean', default: false },
+    split: { type: 'string' },
+    once: { type: 'boolean', default: false },
+    out: { type: 'string', default: '.' },
+    json: { type: 'boolean', default: false },
+    plain: { type: 'boolean', default: false },
+    url: { type: 'string' },
+    'anon-key': { type: 'string' },
+    table: { type: 'string' },
+    column: { type: 'string' },
+    'id-column': { type: 'string' },
+    'sender-column': { type: 'string' },
+    bucket: { type: 'string' },
+    interval: { type: 'string' },
+    verbose: { type: 'boolean', default: false },
+    help: { type: 'boolean', short: 'h', default: false },
+  },
+})
+
+// Keep stdout clean unless asked; secrets stay redacted either way (see log.ts)
+setLogLevel(opts.verbose ? 'debug' : 'silent')
+
+function out(line: string) {
+  process.stdout.write(line + '\n')
+}
+
+function info(line: string) {
+  process.stderr.write(line + '\n')
+}
+
+// ─── Commands ────────────────────────────────────────────────────
+
+async function keygen() {
+  if (!opts.force && await readJson(IDENTITY_PATH)) {
+    throw new Error(`Identity already exists at ${IDENTITY_PATH} (use --force to replace it)`)
+  }
+  const identity: IdentityFile = { v: 1, id: serializeKeyPair(generateKeyPair()) }
+  await writeJson(IDENTITY_PATH, identity)
+  info(`Identity key written to ${IDENTITY_PATH}`)
+  out(identity.id.pub)
+}
+
+async function handshake() {
+  const file = await readJson<IdentityFile>(IDENTITY_PATH)
+  if (!file) throw new Error('No identity key — run "xchat keygen" first')
+  if (!opts.force && await readJson(opts.session)) {
+    throw new Error(`Session already exists at ${opts.session} (use --force or another --session)`)
+  }
+
+  const identity = restoreKeyPair(file.id)
+  const ephemeral = generateKeyPair()
+  info('Your invite code — send it to your chat partner:')
+  out(encodeInvite({ code: encodeHandshakeCode(identity.publicKey, ephemeral.publicKey) }))
+
+  const invite = parseInvite(opts.peer ?? await prompt("Partner's invite link or code: "))
+  const peer = decodeHandshakeCode(invite.code)
+  if (invite.transport?.kind === 'supabase') {
+    // Taken over only when nothing is configured yet
+    if (await readJson(SUPABASE_PATH)) {
+      info(`Invite carries Supabase settings; keeping ${SUPABASE_PATH}`)
+    } else {
+      await writeJson(SUPABASE_PATH, invite.transport.settings)
+      info(`Supabase settings from the invite written to ${SUPABASE_PATH}`)
+    }
+  } else if (invite.transport) {
+    info(`Invite is for the ${invite.transport.kind} transport, which the CLI does not support`)
+  }
+  const session: SessionData = {
+    v: SESSION_VERSION,
+    ...RatchetSession.fromHandshake(identity, ephemeral, peer).serialize(),
+    cm: 'supabase',
+    name: opts.name || undefined,
+  }
+  await createSessionFile(opts.session, session)
+
+  const safety = computeSafetyNumber(identity.publicKey, peer.identity)
+  info(`Session written to ${opts.session}`)
+  info('Safety number — compare it with your partner:')
+  info(`  ${safety.blocks.slice(0, 6).join(' ')}`)
+  info(`  ${safety.blocks.slice(6).join(' ')}`)
+}
+
+async function send() {
+  const session = await openSession(opts.session)
+  const transport = opts.manual ? null : createSupabaseTransport(await supabaseSettings(), routeOf(session.data))
+
+  const attachments: Attachment[] = []
+  for (const path of opts.file) {
+    attachments.push(await readAttachment(path, transport?.fileStore ?? null, hasFeature(session.data.pc ?? null, FEATURE_PADDED)))
+  }
+  let text = positionals.slice(1).join(' ')
+  if (!text && attachments.length === 0) text = (await readStdin()).replace(/\n$/, '')
+
+  const payload: MessagePayload = { id: newMessageId() }
+  if (text) payload.text = text
+  if (attachments.length > 0) payload.attachments = attachments
+  if (!payload.text && !payload.attachments) throw new Error('Nothing to send')
+  // Keeps the web app's disappearing-message timer — the CLI itself keeps no history
+  if (session.data.ttl) payload.ttl = session.data.ttl
+
+  // Save the advanced chain only after the message has left
+  const ratchet = RatchetSession.restore(session.data)
+  const { ciphertext } = ratchet.encrypt(payload)
+  if (!transport) {
+    out(armor(ciphertext, Number(opts.split ?? 0)).join('\n\n'))
+  } else {
+    await transport.send(ciphertext)
+    info('Sent')
+  }
+  Object.assign(session.data, ratchet.serialize())
+  await session.save()
+}
+
+async function listen() {
+  const session = await openSession(opts.session)
+  const ratchet = RatchetSession.restore(session.data)
+  const from = session.data.name || fingerprintOf(ratchet.peerIdentity)
+
+  // Returns the ID of a chat message to acknowledge
+  const receive = async (encoded: string): Promise<string | undefined> => {
+    const payload = ratchet.decrypt(encoded)
+    if (!payload) {
+      info('Decryption failed — wrong session or tampered data')
+      return
+    }
+    Object.assign(session.data, ratchet.serialize())
+    if (!isControlPayload(payload)) session.data.ttl = receivedTimer(payload.ttl) || undefined
+    await session.save()
+    if (payload.receipt) {
+      if (opts.json) out(JSON.stringify({ from, receipt: payload.receipt }))
+      return
+    }
+    // Group membership and sender keys — groups are only shown in the web app
+    if (payload.group) return
+    // Edits, deletions and reactions refer to earlier messages, which a
+    // terminal cannot change — scripts get them as JSON
+    if (payload.action) {
+      if (opts.json) out(JSON.stringify({ from, action: payload.action }))
+      return
+    }
+    await printMessage(from, payload, fileStore)
+    return payload.id
+  }
+
+  // Large attachments are fetched from the bucket, also for pasted ciphertexts
+  let fileStore: FileStore | null = null
+  if (opts.manual) {
+    try {
+      fileStore = createSupabaseTransport(await supabaseSettings(), routeOf(session.data)).fileStore
+    } catch {
+      // no Supabase settings — stored files are skipped
+    }
+    // Armored blocks are collected line by line; parts wait for the rest
+    const parts = new PartBuffer()
+    let block: string[] | null = null
+    for await (const line of createInterface({ input: process.stdin })) {
+      if (line.includes('-----BEGIN XCHAT MESSAGE-----')) block = []
+      if (block) {
+        block.push(line)
+        if (!line.includes('-----END XCHAT MESSAGE-----')) continue
+        try {
+          for (const part of dearmor(block.join('\n'))) {
+            const ciphertext = parts.add(part)
+            if (ciphertext) await receive(ciphertext)
+          }
+        } catch (err: any) {
+          info(err.message)
+        }
+        block = null
+      } else if (line.trim()) {
+        await receive(line.trim())
+      }
+    }
+    for (const m of parts.missing()) info(`Incomplete message: part ${m.missing.join(', ')} of ${m.total} missing`)
+    return
+  }
+
+  const settings = await supabaseSettings()
+  const transport = createSupabaseTransport(settings, routeOf(session.data))
+  fileStore = transport.fileStore
+  for (;;) {
+    const delivered: string[] = []
+    for (const row of await transport.poll()) {
+      try {
+        const id = await receive(row.data.d)
+        if (id) delivered.push(id)
+      } finally {
+        await transport.remove(row.pk)
+      }
+    }
+    // A headless client never "reads" — acknowledge delivery only
+    if (delivered.length > 0) {
+      const { ciphertext, rollback } = ratchet.encrypt({ receipt: { t: 'delivered', ids: delivered } })
+      try {
+        await transport.send(ciphertext)
+        Object.assign(session.data, ratchet.serialize())
+        await session.save()
+      } catch (err: any) {
+        rollback()
+        info(`Receipt not sent: ${err.message}`)
+      }
+    }
+    if (opts.once) return
+    await new Promise(r => setTimeout(r, settings.pollInterval))
+  }
+}
+
+async function exportSession() {
+  const session = await openSession(opts.session)
+  out(JSON.stringify(opts.plain ? session.data : await session.seal()))
+}
+
+// ─── Backend ─────────────────────────────────────────────────────
+
+async function setupSql() {
+  process.stdout.write(joinSql(provisioningSql(await supabaseSettings())))
+}
+
+// Fails when anything the client needs is missing; warnings still pass
+async function checkBackend() {
+  const settings = await supabaseSettings()
+  if (!settings.url || !settings.anonKey || !settings.table || !settings.column) {
+    throw new Error('Supabase is not configured — pass --url, --anon-key, --table and --column or create supabase.json')
+  }
+  const client = createClient(settings.url, settings.anonKey, { auth: { persistSession: false } })
+  const sections = provisioningSql(settings)
+  const icons = { ok: '✓', warning: '!', missing: '✗', skipped: '-' }
+  const results = await probeBackend(client, settings, {
+    onResult: (r) => {
+      const fix = r.status !== 'ok' && sections.find(s => s.id === r.fix)
+      out(`${icons[r.status]} ${PROBE_LABELS[r.check]}: ${r.detail}${fix ? ` (see "${fix.title}" in setup-sql)` : ''}`)
+    },
+  })
+  await client.removeAllChannels()
+  if (results.some(r => r.status === 'missing')) throw new Error('Backend is not ready — run the output of `xchat setup-sql`')
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────
+
+function fingerprintOf(publicKey: Uint8Array): string {
+  return encodeBase64(publicKey).slice(0, 8)
+}
+
+function routeOf(session: SessionData): DbRoute {
+  return {
+    fingerprint: fingerprintOf(decodeBase64(session.kp.pub)),
+    peerFingerprint: fingerprintOf(decodeBase64(session.peer)),
+    mailbox: mailboxKey(decodeBase64(session.kp.sec), decodeBase64(session.peer)),
+  }
+}
+
+// Same shape as the web app's Supabase settings, overridden by flags
+async function supabaseSettings(): Promise<DbSettings> {
+  const saved = await readJson<Partial<DbSettings>>(SUPABASE_PATH) ?? {}
+  return {
+    url: opts.url ?? saved.url ?? '',
+    anonKey: opts['anon-key'] ?? saved.anonKey ?? '',
+    table: opts.table ?? saved.table ?? '',
+    column: opts.column ?? saved.column ?? '',
+    idColumn: opts['id-column'] ?? saved.idColumn ?? 'id',
+    senderColumn: opts['sender-column'] ?? saved.senderColumn ?? 'sender',
+    bucket: opts.bucket ?? saved.bucket ?? '',
+    pollInterval: opts.interval ? Number(opts.interval) * 1000 : saved.pollInterval ?? 30000,
+  }
+}
+
+const IMAGE_TYPES: Record<string, string> = { '.png': 'image/png', '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.gif': 'image/gif', '.webp': 'image/webp' }
+const AUDIO_TYPES: Record<string, string> = { '.webm': 'audio/webm', '.ogg': 'audio/ogg', '.mp3': 'audio/mpeg', '.m4a': 'audio/mp4', '.wav': 'audio/wav' }
+
+// Large files go to the storage bucket when one is configured, padded when
+// the peer reads padded payloads
+async function readAttachment(path: string, store: FileStore | null, pad: boolean): Promise<Attachment> {
+  const content = store && (await stat(path)).size > INLINE_LIMIT
+    ? { file: await encryptFile(await openAsBlob(path), store, undefined, null, pad) }
+    : { data: bytesToBase64(await readFile(path)) }
+  const ext = extname(path).toLowerCase()
+  const name = basename(path)
+  if (IMAGE_TYPES[ext]) return { type: 'image', mime: IMAGE_TYPES[ext], ...content, name }
+  if (AUDIO_TYPES[ext]) return { type: 'audio', mime: AUDIO_TYPES[ext], ...content }
+  return { type: 'file', mime: 'application/octet-stream', ...content, name }
+}
+
+async function printMessage(from: string, payload: MessagePayload, store: FileStore | null) {
+  const saved: Array<{ type: string; name: string; path: string }> = []
+  for (const [i, a] of (payload.attachments ?? []).entries()) {
+    const name = basename(a.name || `${a.type}-${Date.now()}-${i}${a.type === 'audio' ? '.webm' : ''}`)
+    const path = join(opts.out, name)
+    let bytes: Uint8Array
+    if (a.file) {
+      if (!store) {
+        info(`${from}: [${a.type}] ${name} is in a storage bucket — pass --bucket to download it`)
+        continue
+      }
+      bytes = new Uint8Array(await (await decryptFile(a.file, store, a.mime)).arrayBuffer())
+      await store.remove(chunkPaths(a.file))
+    } else {
+      bytes = base64ToBytes(a.data ?? '')
+    }
+    await mkdir(opts.out, { recursive: true })
+    await writeFile(path, bytes)
+    saved.push({ type: a.type, name, path })
+  }
+
+  if (opts.json) {
+    out(JSON.stringify({ from, id: payload.id, text: payload.text, reply: payload.reply, attachments: saved }))
+    return
+  }
+  if (payload.reply) out(`${from}: > ${payload.reply.text ?? '…'}`)
+  if (payload.text) out(`${from}: ${payload.text}`)
+  for (const a of saved) out(`${from}: [${a.type}] ${a.path}`)
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer)
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+// ─── Main ────────────────────────────────────────────────────────
+
+const COMMANDS: Record<string, () => Promise<void>> = {
+  keygen,
+  handshake,
+  send,
+  listen,
+  'export-session': exportSession,
+  'setup-sql': setupSql,
+  'check-backend': checkBackend,
+}
+
+const command = COMMANDS[positionals[0] ?? '']
+if (opts.help || !command) {
+  process.stderr.write(USAGE)
+  process.exit(opts.help ? 0 : 1)
+}
+
+command().then(
+  () => process.exit(0),
+  (err: Error) => {
+    info(`xchat: ${err.message}`)
+    process.exit(1)
+  }
+)
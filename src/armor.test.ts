@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import nacl from 'tweetnacl'
+import { encodeBase64 } from 'tweetnacl-util'
+import { armor, dearmor, crc24, PartBuffer, ArmorError, MIN_PART_LENGTH } from './armor'
+
+const ciphertext = encodeBase64(nacl.randomBytes(5000))
+
+function reassemble(parts: string[]): string | null {
+  const buffer = new PartBuffer()
+  let result: string | null = null
+  for (const part of parts) {
+    for (const p of dearmor(part)) result = buffer.add(p) ?? result
+  }
+  return result
+}
+
+describe('armor', () => {
+  it('computes the OpenPGP CRC-24', () => {
+    expect(crc24(new Uint8Array())).toBe(0xb704ce)
+    expect(crc24(new TextEncoder().encode('123456789'))).toBe(0x21cf02)
+  })
+
+  it('wraps a message in one block without headers', () => {
+    const [block, ...rest] = armor(ciphertext)
+    expect(rest).toHaveLength(0)
+    expect(block!.split('\n').every(line => line.length <= 64)).toBe(true)
+    expect(block).not.toContain('Part:')
+    expect(reassemble([block!])).toBe(ciphertext)
+  })
+
+  it('splits to a size limit and reassembles parts in any order', () => {
+    const parts = armor(ciphertext, 2000)
+    expect(parts.length).toBeGreaterThan(1)
+    expect(parts.every(p => p.length <= 2000)).toBe(true)
+    expect(reassemble([...parts].reverse())).toBe(ciphertext)
+    expect(armor(ciphertext, 1).every(p => p.length <= MIN_PART_LENGTH)).toBe(true)
+  })
+
+  it('waits for missing parts', () => {
+    const parts = armor(ciphertext, 2000)
+    const buffer = new PartBuffer()
+    expect(buffer.add(dearmor(parts[1]!)[0]!)).toBeNull()
+    expect(buffer.missing()[0]!.missing).toEqual([1, ...parts.slice(2).map((_, i) => i + 3)])
+  })
+
+  it('survives rewrapping, quoting and joined lines', () => {
+    const [block] = armor(ciphertext)
+    const quoted = block!.split('\n').map(line => `> ${line}`).join('\n')
+    expect(reassemble([quoted])).toBe(ciphertext)
+    expect(reassemble([block!.replace(/\n/g, ' ')])).toBe(ciphertext)
+    const parts = armor(ciphertext, 2000).map(p => p.replace(/\n/g, '\r\n  '))
+    expect(reassemble(parts)).toBe(ciphertext)
+  })
+
+  it('tells damage in transit from a failed decryption', () => {
+    const [block] = armor(ciphertext)
+    const lines = block!.split('\n')
+    const line = lines[5]!
+    lines[5] = (line[0] === 'A' ? 'B' : 'A') + line.slice(1)
+    expect(() => dearmor(lines.join('\n'))).toThrow(ArmorError)
+    expect(() => dearmor(lines.join('\n'))).toThrow('checksum mismatch')
+    expect(() => dearmor(block!.slice(0, 600))).toThrow('cut short')
+  })
+})
@@ -0,0 +1,200 @@
+import nacl from 'tweetnacl'
+import { encodeBase64, decodeBase64 } from 'tweetnacl-util'
+
+// ─── ASCII Armor ─────────────────────────────────────────────────
+// Copy/paste ciphertext survives chat apps and mail clients that wrap, quote
+// or cut long lines. The base64 ciphertext is wrapped at 64 columns between
+// BEGIN/END lines and followed by a CRC-24 of its bytes, as in OpenPGP, so a
+// damaged paste is reported as such instead of as a failed decryption.
+//
+//   -----BEGIN XCHAT MESSAGE-----
+//   Part: 2/3
+//   Id: 4Rk9aQ
+//
+//   <base64, 64 per line>
+//   =<CRC-24, base64>
+//   -----END XCHAT MESSAGE-----
+//
+// Messages over a size limit are split into numbered parts that share an Id;
+// each part carries its own CRC and they can be pasted in any order. A single
+// part has no headers. Bare base64 from older builds is still accepted.
+
+const BEGIN = '-----BEGIN XCHAT MESSAGE-----'
+const END = '-----END XCHAT MESSAGE-----'
+const LINE_LENGTH = 64
+
+// Room taken by everything but the body of a part (markers, headers, CRC)
+const PART_OVERHEAD = 96
+export const MIN_PART_LENGTH = 512
+
+export interface ArmorPart {
+  id: string    // shared by the parts of one message ('' when not split)
+  index: number // 1-based
+  total: number
+  data: string  // this part's base64
+}
+
+// A paste that arrived damaged — as opposed to one that fails to decrypt
+export class ArmorError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ArmorError'
+  }
+}
+
+// ─── CRC-24 ──────────────────────────────────────────────────────
+
+const CRC24_INIT = 0xb704ce
+const CRC24_POLY = 0x1864cfb
+
+export function crc24(bytes: Uint8Array): number {
+  let crc = CRC24_INIT
+  for (const byte of bytes) {
+    crc ^= byte << 16
+    for (let i = 0; i < 8; i++) {
+      crc <<= 1
+      if (crc & 0x1000000) crc ^= CRC24_POLY
+    }
+  }
+  return crc & 0xffffff
+}
+
+function encodeCrc(bytes: Uint8Array): string {
+  const crc = crc24(bytes)
+  return encodeBase64(Uint8Array.of(crc >> 16, (crc >> 8) & 0xff, crc & 0xff))
+}
+
+// ─── Encoding ────────────────────────────────────────────────────
+
+// Splits when the armored text would exceed maxLength characters (0 = never)
+export function armor(ciphertext: string, maxLength = 0): string[] {
+  const bytes = decodeBase64(ciphertext)
+  const perPart = maxLength > 0 ? bytesPerPart(Math.max(maxLength, MIN_PART_LENGTH)) : bytes.length
+  const total = Math.max(1, Math.ceil(bytes.length / perPart))
+  const id = total > 1 ? encodeBase64(nacl.randomBytes(6)).replace(/[+/]/g, 'x') : ''
+
+  const parts: string[] = []
+  for (let i = 0; i < total; i++) {
+    const chunk = bytes.subarray(i * perPart, (i + 1) * perPart)
+    const lines = [BEGIN]
+    if (total > 1) lines.push(`Part: ${i + 1}/${total}`, `Id: ${id}`)
+    lines.push('')
+    lines.push(...wrap(encodeBase64(chunk)))
+    lines.push(`=${encodeCrc(chunk)}`, END)
+    parts.push(lines.join('\n'))
+  }
+  return parts
+}
+
+// Whole 3-byte groups, so every part is valid base64 on its own
+function bytesPerPart(maxLength: number): number {
+  const body = maxLength - PART_OVERHEAD
+  const chars = body - Math.ceil(body / (LINE_LENGTH + 1)) // newline per line
+  return Math.floor(chars / 4) * 3
+}
+
+function wrap(text: string): string[] {
+  const lines: string[] = []
+  for (let i = 0; i < text.length; i += LINE_LENGTH) lines.push(text.slice(i, i + LINE_LENGTH))
+  return lines
+}
+
+// ─── Decoding ────────────────────────────────────────────────────
+
+export function isArmored(text: string): boolean {
+  return text.includes(BEGIN)
+}
+
+// Every armored block in the text, checked against its CRC. Quote markers
+// and rewrapped or joined lines are tolerated; anything else throws.
+export function dearmor(text: string): ArmorPart[] {
+  const blocks = [...text.matchAll(/-----BEGIN XCHAT MESSAGE-----([\s\S]*?)-----END XCHAT MESSAGE-----/g)]
+  if (blocks.length === 0) {
+    throw new ArmorError(isArmored(text) ? 'The message was cut short — its END line is missing' : 'Not an armored message')
+  }
+  return blocks.map(block => parseBlock(block[1]!))
+}
+
+function parseBlock(content: string): ArmorPart {
+  // Quote markers from mail replies
+  let rest = content.replace(/^[ \t]*(>[ \t]?)+/gm, '')
+
+  let index = 1
+  let total = 1
+  let id = ''
+  const part = rest.match(/Part:\s*(\d+)\s*\/\s*(\d+)/)
+  if (part) {
+    index = Number(part[1])
+    total = Number(part[2])
+    rest = rest.replace(part[0], '')
+  }
+  const idHeader = rest.match(/Id:\s*([A-Za-z0-9]+)/)
+  if (idHeader) {
+    id = idHeader[1]!
+    rest = rest.replace(idHeader[0], '')
+  }
+  if (total < 1 || index < 1 || index > total || (total > 1 && !id)) {
+    throw new ArmorError('Invalid part header')
+  }
+  const label = total > 1 ? `Part ${index}/${total}` : 'The message'
+
+  const body = rest.replace(/\s+/g, '')
+  const crc = body.match(/=([A-Za-z0-9+/]{4})$/)
+  if (!crc) throw new ArmorError(`${label} is missing its checksum line — it was probably cut short`)
+  const data = body.slice(0, -crc[0].length)
+
+  let bytes: Uint8Array
+  try {
+    bytes = decodeBase64(data)
+  } catch {
+    throw new ArmorError(`${label} was damaged in transit (invalid characters) — ask for it again`)
+  }
+  if (encodeCrc(bytes) !== crc[1]) {
+    throw new ArmorError(`${label} was damaged in transit (checksum mismatch) — ask for it again`)
+  }
+  return { id, index, total, data }
+}
+
+// ─── Reassembly ──────────────────────────────────────────────────
+// Parts collect until every index of an Id is present, like the envelope
+// chunk buffer does for transports.
+
+export class PartBuffer {
+  private messages = new Map<string, { total: number; parts: Map<number, string> }>()
+
+  // Returns the whole ciphertext once the last missing part arrives
+  add(part: ArmorPart): string | null {
+    if (part.total === 1) return part.data
+
+    let message = this.messages.get(part.id)
+    if (!message || message.total !== part.total) {
+      message = { total: part.total, parts: new Map() }
+      this.messages.set(part.id, message)
+    }
+    message.parts.set(part.index, part.data)
+    if (message.parts.size < message.total) return null
+
+    this.messages.delete(part.id)
+    const bytes = Array.from({ length: message.total }, (_, i) => decodeBase64(message.parts.get(i + 1)!))
+    const joined = new Uint8Array(bytes.reduce((sum, b) => sum + b.length, 0))
+    let offset = 0
+    for (const b of bytes) {
+      joined.set(b, offset)
+      offset += b.length
+    }
+    return encodeBase64(joined)
+  }
+
+  // Indexes still missing for each incomplete message
+  missing(): Array<{ id: string; total: number; missing: number[] }> {
+    return [...this.messages].map(([id, m]) => ({
+      id,
+      total: m.total,
+      missing: Array.from({ length: m.total }, (_, i) => i + 1).filter(i => !m.parts.has(i)),
+    }))
+  }
+
+  clear() {
+    this.messages.clear()
+  }
+}
@@ -0,0 +1,134 @@
+import { ref, computed } from 'vue'
+import { useLocalStorage } from '@vueuse/core'
+import { useEnvelopes, type Envelope } from './useEnvelopes'
+import type { DbConnectionState, DbRoute } from '../types/db'
+import type { BroadcastSettings, TransportOptions } from '../types/transport'
+import { log } from '../log'
+
+// Large enough for any message — BroadcastChannel has no practical size limit
+const CHUNK_SIZE = 64 * 1024 * 1024
+
+// Same-machine transport for testing: tabs of this browser exchange envelopes
+// over a BroadcastChannel. Nothing is stored — a message sent while the other
+// tab is closed or not syncing is lost.
+export function useBroadcast(options: TransportOptions) {
+  const settings = useLocalStorage<BroadcastSettings>('xchat-broadcast-settings', { channel: 'test' })
+
+  const connectionState = ref<DbConnectionState>('disconnected')
+  const connectionError = ref('')
+  let channel: BroadcastChannel | null = null
+
+  const isConnected = computed(() => connectionState.value === 'connected')
+  const isConfigured = isConnected
+  const isSyncing = ref(false)
+  const isListening = ref(false)
+
+  const envelopes = useEnvelopes({ routes: options.routes, chunkSize: CHUNK_SIZE, tag: 'Broadcast' })
+
+  async function connect(): Promise<boolean> {
+    if (typeof BroadcastChannel === 'undefined') {
+      connectionState.value = 'error'
+      connectionError.value = 'BroadcastChannel is not supported in this browser'
+      return false
+    }
+    channel?.close()
+    channel = new BroadcastChannel(`xchat-${settings.value.channel}`)
+    channel.onmessage = (event) => {
+      if (!isSyncing.value) return
+      try {
+        const result = envelopes.receive(event.data.data, event.data.id)
+        if (result) {
+          log.info('[Broadcast] New message received')
+          options.onMessages([result.row])
+        }
+      } catch {
+        // skip malformed messages
+      }
+    }
+    connectionState.value = 'connected'
+    connectionError.value = ''
+    log.info(`[Broadcast] Joined channel "${settings.value.channel}"`)
+    return true
+  }
+
+  function disconnect() {
+    stopSync()
+    channel?.close()
+    channel = null
+    connectionState.value = 'disconnected'
+    log.info('[Broadcast] Disconnected')
+  }
+
+  async function sendMessage(
+    route: DbRoute,
+    encryptedBase64: string,
+    onProgress?: (sent: number, total: number) => void
+  ): Promise<boolean> {
+    const frames = envelopes.frame(route, encryptedBase64)
+    return (await sendEnvelopes(route, frames, 0, onProgress)) === frames.length
+  }
+
+  async function sendEnvelopes(
+    route: DbRoute,
+    frames: Envelope[],
+    from: number,
+    onProgress?: (sent: number, total: number) => void
+  ): Promise<number> {
+    if (!channel || !route.fingerprint) return from
+
+    for (let i = from; i < frames.length; i++) {
+      const wire = envelopes.address(route, frames[i]!)
+      if (wire) channel.postMessage({ id: Math.random().toString(36).slice(2, 10), data: JSON.stringify(wire) })
+      onProgress?.(i + 1, frames.length)
+    }
+    log.info('[Broadcast] Message sent')
+    return frames.length
+  }
+
+  // Nothing is stored; a held row only leaves the quarantine list
+  async function deleteMessage(pk: string | number) {
+    envelopes.release([pk])
+  }
+
+  // Frames are never stored, so there is nothing to delete
+  async function purgeQuarantine() {
+    envelopes.release(envelopes.quarantine.value.map(q => q.pk))
+  }
+
+  function startSync() {
+    if (!isConfigured.value) return
+    isSyncing.value = true
+    isListening.value = true
+    log.info('[Broadcast] Listening')
+  }
+
+  function stopSync() {
+    isSyncing.value = false
+    isListening.value = false
+    envelopes.clear()
+  }
+
+  return {
+    kind: 'broadcast' as const,
+    settings,
+    connectionState,
+    connectionError,
+    isConnected,
+    isConfigured,
+    isSyncing,
+    isListening,
+    chunkProgress: envelopes.chunkProgress,
+    quarantine: envelopes.quarantine,
+    rejectedCount: envelopes.rejectedCount,
+
+    connect,
+    disconnect,
+    sendMessage,
+    sendEnvelopes,
+    deleteMessage,
+    rejectRow: envelopes.reject,
+    purgeQuarantine,
+    startSync,
+    stopSync,
+  }
+}
@@ -0,0 +1,275 @@
+import { ref, type Ref } from 'vue'
+import type { DbMessageEnvelope, DbChunkEnvelope, DbMessageRow, DbRoute, QuarantinedRow } from '../types/db'
+import type { ChunkProgress } from '../types/transport'
+import { mailboxEpoch, sendTag, receiveTags, hasMailbox, envelopeMac, verifyEnvelope, MAILBOX_CATCHUP } from '../mailbox'
+import { PROTOCOL_VERSION } from '../protocol'
+import { log } from '../log'
+
+export const CHUNK_SIZE = 750_000 // ~750KB base64 chars per chunk (safe for Realtime + API)
+const CHUNK_TIMEOUT = 5 * 60 * 1000 // 5 min — discard incomplete chunks after this
+
+export type Envelope = DbMessageEnvelope | DbChunkEnvelope
+
+export interface ReceivedEnvelope {
+  row: DbMessageRow
+  chunkPks: (string | number)[] // rows of a reassembled pairwise message — acknowledge right away
+}
+
+// Wraps ciphertext in a sender/recipient envelope, or splits it into chunk
+// envelopes sharing a random message ID. The result can be stored and sent
+// later (see outbox.ts), so resuming a send repeats the exact same chunks.
+export function frameMessage(route: DbRoute, encryptedBase64: string, chunkSize = CHUNK_SIZE): Envelope[] {
+  // If small enough, send as single message
+  if (encryptedBase64.length <= chunkSize) {
+    return [{ s: route.fingerprint, r: route.peerFingerprint, ...(route.group && { g: route.group }), d: encryptedBase64 }]
+  }
+
+  // Otherwise, split into chunks
+  const mid = Math.random().toString(36).slice(2, 8)
+  const total = Math.ceil(encryptedBase64.length / chunkSize)
+  const envelopes: DbChunkEnvelope[] = []
+  for (let seq = 0; seq < total; seq++) {
+    const start = seq * chunkSize
+    envelopes.push({
+      s: route.fingerprint,
+      r: route.peerFingerprint,
+      ...(route.group && { g: route.group }),
+      t: 'chunk',
+      mid,
+      seq,
+      total,
+      d: encryptedBase64.slice(start, start + chunkSize),
+    })
+  }
+  return envelopes
+}
+
+// Shared wire framing for every transport: wraps ciphertext in envelopes,
+// splits large messages into chunks, addresses and authenticates them with
+// mailbox tags and MACs, and reassembles them on receipt.
+export function useEnvelopes(options: {
+  routes: Ref<DbRoute[]>
+  chunkSize: number // max base64 chars per envelope
+  tag: string       // log prefix
+}) {
+  // Chunk receiving progress (exposed for UI)
+  const chunkProgress = ref<ChunkProgress | null>(null)
+
+  // ─── Chunk Reassembly Buffer ───────────────────────────────
+  // Map<sender:mid, { total, receivedAt, chunks: Map<seq, data>, pks: (string|number)[] }>
+  const chunkBuffer = new Map<string, {
+    total: number
+    receivedAt: number
+    chunks: Map<number, string>
+    pks: (string | number)[]
+  }>()
+
+  // ─── Framing ─────────────────────────────────────────────
+  function frame(route: DbRoute, encryptedBase64: string): Envelope[] {
+    const envelopes = frameMessage(route, encryptedBase64, options.chunkSize)
+    if (envelopes.length > 1) {
+      log.info(`[${options.tag}] Framing chunked message: ${envelopes.length} chunks, total ${encryptedBase64.length} chars`)
+    }
+    return envelopes
+  }
+
+  // ─── Mailbox Tags ────────────────────────────────────────
+  // Tags are applied when an envelope is written, not when it is queued, so
+  // a message retried days later still lands in the peer's current mailbox.
+
+  // Wire form of a queued envelope, or null when its recipient is no longer
+  // one of our routes (e.g. removed from the group)
+  function address(route: DbRoute, envelope: Envelope): Envelope | null {
+    const { r, g, m: _m, v: _v, ...queued } = envelope
+    const peer = r ?? route.peerFingerprint
+    const group = g ?? route.group
+    const target = options.routes.value.find(x => x.peerFingerprint === peer && x.group === group) ?? route
+    if (!hasMailbox(target) || target.peerFingerprint !== peer) return null
+    const wire = { ...queued, s: sendTag(target), v: PROTOCOL_VERSION }
+    return { ...wire, m: envelopeMac(target.mailbox, wire) }
+  }
+
+  // Tags to fetch: around the current epoch, or the whole catch-up window
+  // when rows may have waited while we were offline
+  function pollTags(catchUp: boolean): string[] {
+    const epoch = mailboxEpoch()
+    const from = epoch - (catchUp ? MAILBOX_CATCHUP : 1)
+    return options.routes.value.filter(hasMailbox).flatMap(r => receiveTags(r, from, epoch + 1))
+  }
+
+  // Every tag of the catch-up window → its route, rebuilt when routes change
+  // or the epoch rolls over
+  let tagIndex: { epoch: number; routes: DbRoute[]; byTag: Map<string, DbRoute> } | null = null
+
+  function routeForTag(tag: string | undefined): DbRoute | undefined {
+    if (!tag) return undefined
+    const epoch = mailboxEpoch()
+    if (tagIndex?.epoch !== epoch || tagIndex.routes !== options.routes.value) {
+      const byTag = new Map<string, DbRoute>()
+      for (const route of options.routes.value.filter(hasMailbox)) {
+        for (const t of receiveTags(route, epoch - MAILBOX_CATCHUP, epoch + 1)) byTag.set(t, route)
+      }
+      tagIndex = { epoch, routes: options.routes.value, byTag }
+    }
+    return tagIndex.byTag.get(tag)
+  }
+
+  // ─── Quarantine ──────────────────────────────────────────
+  // A row in one of our mailboxes that fails its MAC — or that the app could
+  // not decrypt — is listed here and left alone, instead of being processed
+  // or deleted. Forged rows cost a tag lookup and a MAC check, nothing more.
+  // The list holds every quarantined row until the user purges them.
+  const quarantine = ref<QuarantinedRow[]>([])
+  const rejectedCount = ref(0)
+  const quarantined = new Set<string | number>()
+
+  function reject(pk: string | number, reason: string) {
+    if (quarantined.has(pk)) return
+    quarantined.add(pk)
+    rejectedCount.value++
+    quarantine.value.push({ pk, reason, at: Date.now() })
+    log.warn(`[${options.tag}] Quarantined row ${pk}: ${reason}`)
+  }
+
+  // After the rows were deleted from the server
+  function release(pks: (string | number)[]) {
+    if (!pks.some(pk => quarantined.has(pk))) return
+    for (const pk of pks) quarantined.delete(pk)
+    quarantine.value = quarantine.value.filter(q => quarantined.has(q.pk))
+  }
+
+  // Rejected rows stay on the server until the user deletes them
+  async function purge(deleteRow: (pk: string | number) => Promise<void>) {
+    const pks = quarantine.value.map(q => q.pk)
+    for (const pk of pks) await deleteRow(pk)
+    release(pks)
+    log.info(`[${options.tag}] Purged ${pks.length} rejected row(s)`)
+  }
+
+  // ─── Receive ─────────────────────────────────────────────
+  // Returns a deliverable row, or null if the envelope is skipped, buffered,
+  // quarantined or not JSON
+  function receive(raw: unknown, pk: string | number): ReceivedEnvelope | null {
+    if (!raw || quarantined.has(pk)) return null
+    let parsed: Partial<DbChunkEnvelope>
+    try {
+      parsed = (typeof raw === 'string' ? JSON.parse(raw) : raw) as Partial<DbChunkEnvelope>
+    } catch {
+      log.warn(`[${options.tag}] Skipped row ${pk}: not JSON`)
+      return null
+    }
+    if (!parsed || typeof parsed !== 'object') return null
+
+    // Only accept rows tagged for one of our routes (ignore other chats)
+    const route = routeForTag(parsed.s)
+    if (!route) return null
+    if (!hasMailbox(route) || !verifyEnvelope(route.mailbox, parsed as DbChunkEnvelope)) {
+      reject(pk, 'Envelope failed authentication')
+      return null
+    }
+    // Kept for a build that can read it — the row is genuine
+    if (parsed.v !== undefined && !(Number.isInteger(parsed.v) && parsed.v <= PROTOCOL_VERSION)) {
+      reject(pk, `Sent with protocol v${parsed.v} — update XChat to read it`)
+      return null
+    }
+
+    // Chunk envelope — keyed by route, as a message's chunks may carry
+    // different tags when it was sent across an epoch boundary
+    if (parsed.t === 'chunk') {
+      const chunk = parsed as DbChunkEnvelope
+      const bufferKey = `${route.peerFingerprint}:${route.group ?? ''}:${chunk.mid}`
+
+      // Authentic but malformed: a count that disagrees with the message's
+      // other chunks, or a number outside it, would never reassemble
+      let buf = chunkBuffer.get(bufferKey)
+      if (!Number.isInteger(chunk.total) || chunk.total < 1 || (buf && chunk.total !== buf.total)) {
+        reject(pk, `Chunk count ${chunk.total} does not fit the message`)
+        return null
+      }
+      if (!Number.isInteger(chunk.seq) || chunk.seq < 0 || chunk.seq >= chunk.total) {
+        reject(pk, `Chunk number ${chunk.seq} is outside 0–${chunk.total - 1}`)
+        return null
+      }
+      if (!buf) {
+        buf = { total: chunk.total, receivedAt: Date.now(), chunks: new Map(), pks: [] }
+        chunkBuffer.set(bufferKey, buf)
+      }
+
+      // A re-polled or replayed chunk is already buffered; a replay's row is
+      // still acknowledged with the message
+      if (buf.chunks.has(chunk.seq)) {
+        if (!buf.pks.includes(pk)) buf.pks.push(pk)
+        return null
+      }
+      buf.chunks.set(chunk.seq, chunk.d)
+      buf.pks.push(pk)
+      buf.receivedAt = Date.now()
+
+      log.info(`[${options.tag}] Chunk ${chunk.seq + 1}/${chunk.total} for mid=${chunk.mid}`)
+
+      // Update progress for UI
+      chunkProgress.value = { mid: chunk.mid, received: buf.chunks.size, total: buf.total }
+
+      // Check if complete
+      if (buf.chunks.size === buf.total) {
+        // Reassemble in order
+        const assembled = Array.from({ length: buf.total }, (_, i) => buf.chunks.get(i) ?? '').join('')
+        const pks = [...buf.pks]
+        chunkBuffer.delete(bufferKey)
+        chunkProgress.value = null
+
+        log.info(`[${options.tag}] All chunks received for mid=${chunk.mid} — assembled ${assembled.length} chars`)
+
+        // Synthetic message row for the reassembled message. A group message
+        // may wait for its sender's key, so the app acknowledges its chunks.
+        const envelope: DbMessageEnvelope = { s: chunk.s, d: assembled }
+        const held = route.group !== undefined
+        return {
+          row: { pk: pks[0]!, sender: route.peerFingerprint, group: route.group, data: envelope, ...(held && { chunks: pks }) },
+          chunkPks: held ? [] : pks,
+        }
+      }
+
+      return null // Still waiting for more chunks
+    }
+
+    // Regular message envelope
+    if (parsed.s && parsed.d) {
+      return { row: { pk, sender: route.peerFingerprint, group: route.group, data: parsed as DbMessageEnvelope }, chunkPks: [] }
+    }
+
+    return null
+  }
+
+  // Drops incomplete chunked messages; the caller acknowledges their rows
+  function cleanupStaleChunks(onExpired: (pks: (string | number)[]) => void) {
+    const now = Date.now()
+    for (const [key, buf] of chunkBuffer) {
+      if (now - buf.receivedAt > CHUNK_TIMEOUT) {
+        log.warn(`[${options.tag}] Chunk buffer expired for ${key} (${buf.chunks.size}/${buf.total} received)`)
+        onExpired(buf.pks)
+        chunkBuffer.delete(key)
+      }
+    }
+  }
+
+  function clear() {
+    chunkBuffer.clear()
+    chunkProgress.value = null
+  }
+
+  return {
+    chunkProgress,
+    quarantine,
+    rejectedCount,
+    frame,
+    address,
+    pollTags,
+    receive,
+    reject,
+    release,
+    purge,
+    cleanupStaleChunks,
+    clear,
+  }
+}
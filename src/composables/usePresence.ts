@@ -0,0 +1,141 @@
+import { ref, watch, type Ref } from 'vue'
+import { useIntervalFn, useEventListener } from '@vueuse/core'
+import type { PresenceChannel } from '../types/transport'
+import {
+  presenceTopic,
+  presenceKey,
+  sealPresence,
+  openPresence,
+  applyPresence,
+  HEARTBEAT_INTERVAL,
+  TYPING_THROTTLE,
+  type PeerPresence,
+  type PresenceEventType,
+} from '../presence'
+
+// A pairwise chat that can carry presence: its mailbox key and both fingerprints
+export interface PresenceRoute {
+  id: string
+  mailbox: Uint8Array
+  fingerprint: string
+  peerFingerprint: string
+}
+
+interface Joined {
+  topic: string
+  channel: PresenceChannel
+  sendKey: Uint8Array
+  receiveKey: Uint8Array
+}
+
+export interface PresenceOptions {
+  routes: Ref<PresenceRoute[]>
+  available: Ref<boolean> // Realtime is up; without it nothing is joined
+  join: (topic: string, onMessage: (data: unknown) => void) => PresenceChannel | null
+  shareOnline: Ref<boolean>
+  shareTyping: Ref<boolean>
+  isVisible: Ref<boolean>
+}
+
+// One broadcast channel per chat while Realtime is available. We announce
+// ourselves online while the page is visible (and sharing is on), answer a
+// peer coming online, and send typing events throttled per chat.
+export function usePresence(options: PresenceOptions) {
+  const peers = ref<Record<string, PeerPresence>>({})
+  const now = ref(Date.now()) // ticks so labels age
+  const joined = new Map<string, Joined>()
+  const lastTyping = new Map<string, number>()
+
+  function sync() {
+    const routes = options.available.value ? options.routes.value : []
+    const wanted = new Map(routes.map(r => [r.id, r]))
+
+    for (const [id, j] of joined) {
+      const route = wanted.get(id)
+      if (route && presenceTopic(route.mailbox) === j.topic) continue
+      if (!route && options.shareOnline.value) send(j, 'offline')
+      j.channel.leave()
+      joined.delete(id)
+    }
+
+    for (const route of routes) {
+      if (joined.has(route.id)) continue
+      const topic = presenceTopic(route.mailbox)
+      const receiveKey = presenceKey(route.mailbox, route.peerFingerprint)
+      const channel = options.join(topic, data => receive(route.id, receiveKey, data))
+      if (!channel) continue
+      const j: Joined = { topic, channel, sendKey: presenceKey(route.mailbox, route.fingerprint), receiveKey }
+      joined.set(route.id, j)
+      // The channel subscribes asynchronously; the first heartbeat announces us
+      setTimeout(() => { if (joined.get(route.id) === j) announce(j) }, 1000)
+    }
+  }
+
+  function receive(id: string, key: Uint8Array, data: unknown) {
+    const event = openPresence(key, data)
+    if (!event) return
+    const state = peers.value[id] ?? { online: false, lastSeen: null, typingUntil: 0 }
+    const cameOnline = event.t === 'online' && !state.online
+    peers.value = { ...peers.value, [id]: applyPresence(state, event) }
+    // Answer, so they see us now rather than at our next heartbeat
+    const j = joined.get(id)
+    if (cameOnline && j) announce(j)
+  }
+
+  function send(j: Joined, t: PresenceEventType) {
+    j.channel.send(sealPresence(j.sendKey, { t, at: Date.now() }))
+  }
+
+  function announce(j: Joined) {
+    if (options.shareOnline.value && options.isVisible.value) send(j, 'online')
+  }
+
+  function announceAll(t: PresenceEventType) {
+    for (const j of joined.values()) send(j, t)
+  }
+
+  // Called as the user types in a chat
+  function typing(id: string) {
+    const j = joined.get(id)
+    if (!j || !options.shareTyping.value) return
+    const last = lastTyping.get(id) ?? 0
+    if (Date.now() - last < TYPING_THROTTLE) return
+    lastTyping.set(id, Date.now())
+    send(j, 'typing')
+  }
+
+  // A message from the peer ends their typing
+  function clearTyping(id: string) {
+    const state = peers.value[id]
+    if (state?.typingUntil) peers.value = { ...peers.value, [id]: { ...state, typingUntil: 0 } }
+  }
+
+  function stop() {
+    if (options.shareOnline.value) announceAll('offline')
+    for (const j of joined.values()) j.channel.leave()
+    joined.clear()
+    lastTyping.clear()
+    peers.value = {}
+  }
+
+  watch([options.routes, options.available], sync, { immediate: true })
+
+  watch([options.isVisible, options.shareOnline], ([visible, share], [, shared]) => {
+    if (share && visible) announceAll('online')
+    else if (shared) announceAll('offline')
+  })
+
+  // Heartbeat; also moves to the next topic when the mailbox epoch turns
+  useIntervalFn(() => {
+    sync()
+    for (const j of joined.values()) announce(j)
+  }, HEARTBEAT_INTERVAL)
+
+  useIntervalFn(() => { now.value = Date.now() }, 1000)
+
+  useEventListener(window, 'pagehide', () => {
+    if (options.shareOnline.value) announceAll('offline')
+  })
+
+  return { peers, now, typing, clearTyping, stop }
+}
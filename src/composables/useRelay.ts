@@ -0,0 +1,330 @@
+import { ref, computed, watch } from 'vue'
+import { useLocalStorage } from '@vueuse/core'
+import { useEnvelopes, CHUNK_SIZE, type Envelope } from './useEnvelopes'
+import type { DbConnectionState, DbMessageRow, DbRoute } from '../types/db'
+import type { RelaySettings, TransportOptions } from '../types/transport'
+import { log } from '../log'
+
+const PUSH_BACKUP_INTERVAL = 5 * 60 * 1000 // 5 minutes
+const TAG_BATCH_SIZE = 100 // mailbox tags per GET, to keep the URL short
+
+const DEFAULT_SETTINGS: RelaySettings = {
+  url: '',
+  token: '',
+  wsUrl: '',
+  pollInterval: 30000,
+}
+
+// Generic store-and-forward relay. REST:
+//   POST   {url}/messages          { to, data }  → { id }
+//   GET    {url}/messages?to=a,b                 → [{ id, data }]
+//   DELETE {url}/messages/{id}
+// Optional WebSocket push at {wsUrl}?token=…: the client sends
+//   { type: 'subscribe', to: [...] } and receives { type: 'message', id, data }.
+// `to` is the recipient's mailbox tag (see mailbox.ts) and `data` the JSON envelope.
+
+// A message as the relay lists, pushes or acknowledges it. Relays are third
+// parties, so what they answer is checked before use.
+function storedMessage(value: unknown): { id: string | number; data: unknown } | null {
+  if (typeof value !== 'object' || value === null) return null
+  const { id, data } = value as Record<string, unknown>
+  return typeof id === 'string' || typeof id === 'number' ? { id, data } : null
+}
+
+export function useRelay(options: TransportOptions) {
+  // ─── Persisted Settings ──────────────────────────────────
+  const settings = useLocalStorage<RelaySettings>('xchat-relay-settings', { ...DEFAULT_SETTINGS })
+
+  // ─── State ───────────────────────────────────────────────
+  const connectionState = ref<DbConnectionState>('disconnected')
+  const connectionError = ref('')
+
+  let pollTimer: ReturnType<typeof setTimeout> | null = null
+  let socket: WebSocket | null = null
+  let caughtUp = false   // the first poll after starting looks back over older mailbox tags
+  let subscribed = ''    // tags of the push subscription, comma-joined
+
+  const isConnected = computed(() => connectionState.value === 'connected')
+  const isConfigured = isConnected
+  const isSyncing = ref(false)
+  const isListening = ref(false)
+
+  const envelopes = useEnvelopes({ routes: options.routes, chunkSize: CHUNK_SIZE, tag: 'Relay' })
+
+  // ─── HTTP ────────────────────────────────────────────────
+  function endpoint(path: string): string {
+    return settings.value.url.replace(/\/+$/, '') + path
+  }
+
+  async function request(method: string, path: string, body?: unknown): Promise<unknown> {
+    const headers: Record<string, string> = {}
+    if (settings.value.token) headers.Authorization = `Bearer ${settings.value.token}`
+    if (body !== undefined) headers['Content-Type'] = 'application/json'
+
+    const res = await fetch(endpoint(path), {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+    if (!res.ok) throw new Error(`${method} ${path} → HTTP ${res.status}`)
+    return res.status === 204 ? null : res.json().catch(() => null)
+  }
+
+  // ─── Connect ─────────────────────────────────────────────
+  async function connect(): Promise<boolean> {
+    connectionState.value = 'connecting'
+    connectionError.value = ''
+
+    try {
+      new URL(settings.value.url)
+      // A harmless query proves the relay is reachable and accepts our token
+      await request('GET', '/messages?to=')
+      connectionState.value = 'connected'
+      log.info('[Relay] Connected to', settings.value.url)
+      return true
+    } catch (err: any) {
+      connectionState.value = 'error'
+      connectionError.value = err.message
+      log.error('[Relay] Connection failed:', err.message)
+      return false
+    }
+  }
+
+  function disconnect() {
+    stopSync()
+    connectionState.value = 'disconnected'
+    connectionError.value = ''
+    envelopes.clear()
+    log.info('[Relay] Disconnected')
+  }
+
+  // ─── Send Message (auto-chunks if needed) ──────────────
+  async function sendMessage(
+    route: DbRoute,
+    encryptedBase64: string,
+    onProgress?: (sent: number, total: number) => void
+  ): Promise<boolean> {
+    const frames = envelopes.frame(route, encryptedBase64)
+    return (await sendEnvelopes(route, frames, 0, onProgress)) === frames.length
+  }
+
+  async function sendEnvelopes(
+    route: DbRoute,
+    frames: Envelope[],
+    from: number,
+    onProgress?: (sent: number, total: number) => void,
+    onStored?: (pks: Array<string | number>) => void
+  ): Promise<number> {
+    if (!isConfigured.value || !route.fingerprint) return from
+
+    for (let i = from; i < frames.length; i++) {
+      // Envelopes whose recipient is gone are skipped (see useEnvelopes.address)
+      const wire = envelopes.address(route, frames[i]!)
+      try {
+        // Relays that answer with the new message's ID let us withdraw it later
+        const stored = wire ? storedMessage(await request('POST', '/messages', { to: wire.s, data: JSON.stringify(wire) })) : null
+        if (onStored && stored) onStored([stored.id])
+      } catch (err: any) {
+        log.error('[Relay] Send failed:', err.message)
+        return i
+      }
+      onProgress?.(i + 1, frames.length)
+    }
+
+    log.info(`[Relay] Message sent (${frames.length} envelope(s))`)
+    return frames.length
+  }
+
+  // ─── Receive ─────────────────────────────────────────────
+  function processIncoming(id: string | number, data: unknown): DbMessageRow | null {
+    const result = envelopes.receive(data, id)
+    if (!result) return null
+    for (const pk of result.chunkPks) {
+      deleteMessage(pk)
+    }
+    return result.row
+  }
+
+  async function pollOnce() {
+    const tags = envelopes.pollTags(!caughtUp)
+    if (!isConfigured.value || tags.length === 0) return
+
+    envelopes.cleanupStaleChunks(pks => pks.forEach(deleteMessage))
+    // Tags rotate — keep the push subscription on the current ones
+    subscribe()
+
+    const data: unknown[] = []
+    try {
+      for (let i = 0; i < tags.length; i += TAG_BATCH_SIZE) {
+        const batch = tags.slice(i, i + TAG_BATCH_SIZE)
+        const listed = await request('GET', `/messages?to=${batch.map(encodeURIComponent).join(',')}`)
+        if (Array.isArray(listed)) data.push(...listed)
+        else if (listed !== null) throw new Error('The relay did not answer with a list of messages')
+      }
+    } catch (err: any) {
+      log.error('[Relay] Poll failed:', err.message)
+      return
+    }
+    caughtUp = true
+
+    const incoming: DbMessageRow[] = []
+    for (const item of data) {
+      const stored = storedMessage(item)
+      if (!stored) continue // skip items without an ID
+      try {
+        const row = processIncoming(stored.id, stored.data)
+        if (row) incoming.push(row)
+      } catch {
+        // skip malformed items
+      }
+    }
+
+    if (incoming.length > 0) {
+      log.info(`[Relay] Polled ${incoming.length} new message(s)`)
+      options.onMessages(incoming)
+    }
+  }
+
+  async function deleteMessage(pk: string | number) {
+    if (!isConfigured.value) return
+    try {
+      await request('DELETE', `/messages/${encodeURIComponent(String(pk))}`)
+      log.info(`[Relay] Deleted message ${pk}`)
+      envelopes.release([pk])
+    } catch (err: any) {
+      log.error('[Relay] Delete failed:', err.message)
+    }
+  }
+
+  // ─── Polling Engine ────────────────────────────────────
+  function schedulePoll(interval: number) {
+    if (!isSyncing.value) return
+    pollTimer = setTimeout(async () => {
+      await pollOnce()
+      schedulePoll(isListening.value ? PUSH_BACKUP_INTERVAL : settings.value.pollInterval)
+    }, interval)
+  }
+
+  function startPollLoop(interval: number) {
+    stopPollLoop()
+    log.info(`[Relay] Poll loop started (interval: ${Math.round(interval / 1000)}s)`)
+    pollOnce()
+    schedulePoll(interval)
+  }
+
+  function stopPollLoop() {
+    if (pollTimer) {
+      clearTimeout(pollTimer)
+      pollTimer = null
+    }
+  }
+
+  // ─── WebSocket Push ─────────────────────────────────────
+  function subscribe() {
+    const tags = envelopes.pollTags(false)
+    if (socket?.readyState !== WebSocket.OPEN || tags.join(',') === subscribed) return
+    socket.send(JSON.stringify({ type: 'subscribe', to: tags }))
+    subscribed = tags.join(',')
+  }
+
+  function tryPush() {
+    if (!settings.value.wsUrl) return
+
+    let ws: WebSocket
+    try {
+      const url = new URL(settings.value.wsUrl)
+      if (settings.value.token) url.searchParams.set('token', settings.value.token)
+      ws = new WebSocket(url)
+    } catch (err: any) {
+      // A bad push URL must not stop the sync that polling already started
+      log.warn(`[Relay] WebSocket push unavailable (${err.message}) — polling at configured interval`)
+      return
+    }
+    socket = ws
+
+    ws.onopen = () => {
+      subscribed = ''
+      subscribe()
+      isListening.value = true
+      log.info('[Relay] WebSocket push active — switching poll to backup (5 min)')
+      startPollLoop(PUSH_BACKUP_INTERVAL)
+    }
+    ws.onmessage = (event) => {
+      try {
+        const msg: unknown = JSON.parse(event.data)
+        const stored = storedMessage(msg)
+        if (!stored || (msg as { type?: unknown }).type !== 'message') return
+        const row = processIncoming(stored.id, stored.data)
+        if (row) {
+          log.info('[Relay] Push: new message received')
+          options.onMessages([row])
+        }
+      } catch {
+        // skip malformed push events
+      }
+    }
+    ws.onclose = () => {
+      if (socket !== ws) return
+      socket = null
+      if (isListening.value && isSyncing.value) {
+        log.warn('[Relay] WebSocket closed — polling at configured interval')
+        startPollLoop(settings.value.pollInterval)
+      }
+      isListening.value = false
+    }
+  }
+
+  function stopPush() {
+    const ws = socket
+    socket = null
+    ws?.close()
+    isListening.value = false
+  }
+
+  // New conversations need to be added to the push subscription
+  watch(options.routes, subscribe)
+
+  // ─── Unified Sync Control ────────────────────────────────
+  function startSync() {
+    if (!isConfigured.value) return
+
+    isSyncing.value = true
+    caughtUp = false
+    log.info('[Relay] Starting sync...')
+    startPollLoop(settings.value.pollInterval)
+    tryPush()
+  }
+
+  function stopSync() {
+    isSyncing.value = false
+    stopPush()
+    stopPollLoop()
+    envelopes.clear()
+    log.info('[Relay] Sync stopped')
+  }
+
+  return {
+    kind: 'relay' as const,
+    settings,
+    connectionState,
+    connectionError,
+    isConnected,
+    isConfigured,
+    isSyncing,
+    isListening,
+    chunkProgress: envelopes.chunkProgress,
+    quarantine: envelopes.quarantine,
+    rejectedCount: envelopes.rejectedCount,
+
+    connect,
+    disconnect,
+    sendMessage,
+    sendEnvelopes,
+    pollOnce,
+    deleteMessage,
+    rejectRow: envelopes.reject,
+    purgeQuarantine: () => envelopes.purge(deleteMessage),
+    startSync,
+    stopSync,
+  }
+}
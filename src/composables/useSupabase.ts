@@ -1,11 +1,16 @@
-import { ref, computed, type Ref } from 'vue'
+import { ref, computed } from 'vue'
 import { useLocalStorage } from '@vueuse/core'
 import { createClient, type SupabaseClient, type RealtimeChannel } from '@supabase/supabase-js'
-import type { DbSettings, DbConnectionState, DbMessageEnvelope, DbChunkEnvelope, DbMessageRow } from '../types/db'
+import { useEnvelopes, CHUNK_SIZE, type Envelope, type ReceivedEnvelope } from './useEnvelopes'
+import type { DbSettings, DbConnectionState, DbMessageRow, DbRoute } from '../types/db'
+import type { TransportOptions, PresenceChannel } from '../types/transport'
+import type { FileStore } from '../files'
+import { probeBackend, type ProbeResult } from '../provision'
+import { log } from '../log'
 
 const REALTIME_BACKUP_INTERVAL = 5 * 60 * 1000 // 5 minutes
-const CHUNK_SIZE = 750_000 // ~750KB base64 chars per chunk (safe for Realtime + API)
-const CHUNK_TIMEOUT = 5 * 60 * 1000 // 5 min — discard incomplete chunks after this
+const BATCH_SIZE = 10
+const TAG_BATCH_SIZE = 100 // mailbox tags per poll query, to keep the URL short
 
 const DEFAULT_SETTINGS: DbSettings = {
   url: '',
@@ -14,26 +19,26 @@ const DEFAULT_SETTINGS: DbSettings = {
   column: '',
   idColumn: 'id',
   senderColumn: 'sender',
+  bucket: '',
   pollInterval: 30000,
 }
 
-export function useSupabase(options: {
-  fingerprint: Ref<string>
-  peerFingerprint: Ref<string>
-  onMessages: (messages: DbMessageRow[]) => void
-}) {
+export function useSupabase(options: TransportOptions) {
   // ─── Persisted Settings ──────────────────────────────────
-  const settings = useLocalStorage<DbSettings>('xchat-db-settings', { ...DEFAULT_SETTINGS })
+  const settings = useLocalStorage<DbSettings>('xchat-db-settings', { ...DEFAULT_SETTINGS }, { mergeDefaults: true })
 
   // ─── State ───────────────────────────────────────────────
   const connectionState = ref<DbConnectionState>('disconnected')
   const connectionError = ref('')
   const tables = ref<string[]>([])
   const columns = ref<string[]>([])
+  const probeResults = ref<ProbeResult[]>([])
+  const isProbing = ref(false)
 
   let client: SupabaseClient | null = null
   let pollTimer: ReturnType<typeof setTimeout> | null = null
   let realtimeChannel: RealtimeChannel | null = null
+  let caughtUp = false // the first poll after starting looks back over older mailbox tags
 
   const isConnected = computed(() => connectionState.value === 'connected')
   const isConfigured = computed(() =>
@@ -45,31 +50,7 @@ export function useSupabase(options: {
   const isSyncing = ref(false)
   const isListening = ref(false)
 
-  // Chunk receiving progress (exposed for UI)
-  const chunkProgress = ref<{ mid: string; received: number; total: number } | null>(null)
-
-  // ─── Chunk Reassembly Buffer ───────────────────────────────
-  // Map<mid, { total, receivedAt, chunks: Map<seq, data>, pks: (string|number)[] }>
-  const chunkBuffer = new Map<string, {
-    total: number
-    receivedAt: number
-    chunks: Map<number, string>
-    pks: (string | number)[]
-  }>()
-
-  function cleanupStaleChunks() {
-    const now = Date.now()
-    for (const [mid, buf] of chunkBuffer) {
-      if (now - buf.receivedAt > CHUNK_TIMEOUT) {
-        console.warn(`[Supabase] Chunk buffer expired for mid=${mid} (${buf.chunks.size}/${buf.total} received)`)
-        // Delete stale chunk rows from DB
-        for (const pk of buf.pks) {
-          deleteMessage(pk)
-        }
-        chunkBuffer.delete(mid)
-      }
-    }
-  }
+  const envelopes = useEnvelopes({ routes: options.routes, chunkSize: CHUNK_SIZE, tag: 'Supabase' })
 
   // ─── Connect ─────────────────────────────────────────────
   async function connect(): Promise<boolean> {
@@ -85,7 +66,7 @@ export function useSupabase(options: {
           settings.value.table = pathParts[0]!
         }
         settings.value.url = parsed.origin
-        console.log(`[Supabase] Auto-parsed URL → base: ${settings.value.url}, table: ${settings.value.table}`)
+        log.info(`[Supabase] Auto-parsed URL → base: ${settings.value.url}, table: ${settings.value.table}`)
       }
 
       // Close previous client if any
@@ -105,7 +86,7 @@ export function useSupabase(options: {
       if (error) throw new Error(error.message)
 
       connectionState.value = 'connected'
-      console.log('[Supabase] Connected to', settings.value.url)
+      log.info('[Supabase] Connected to', settings.value.url)
 
       await fetchTables()
       return true
@@ -113,7 +94,7 @@ export function useSupabase(options: {
       connectionState.value = 'error'
       connectionError.value = err.message
       client = null
-      console.error('[Supabase] Connection failed:', err.message)
+      log.error('[Supabase] Connection failed:', err.message)
       return false
     }
   }
@@ -126,21 +107,29 @@ export function useSupabase(options: {
     connectionError.value = ''
     tables.value = []
     columns.value = []
-    chunkBuffer.clear()
-    console.log('[Supabase] Disconnected')
+    probeResults.value = []
+    envelopes.clear()
+    log.info('[Supabase] Disconnected')
   }
 
   // ─── Fetch Tables (via RPC or fallback) ──────────────────
+  // The RPC helpers come with the setup SQL (see provision.ts); without them
+  // PostgREST's own schema description is used, which also works on empty tables
   async function fetchTables() {
     if (!client) return
     try {
       const { data, error } = await client.rpc('list_tables')
       if (error) throw error
       tables.value = (data as { table_name: string }[]).map(r => r.table_name)
-      console.log(`[Supabase] Found ${tables.value.length} tables`)
+      log.info(`[Supabase] Found ${tables.value.length} tables`)
     } catch {
-      tables.value = []
-      console.log('[Supabase] list_tables() RPC not available — use manual table name input')
+      try {
+        tables.value = Object.keys(await describeSchema())
+        log.info(`[Supabase] Found ${tables.value.length} tables in the API description`)
+      } catch {
+        tables.value = []
+        log.info('[Supabase] list_tables() RPC not available — use manual table name input')
+      }
     }
   }
 
@@ -152,224 +141,164 @@ export function useSupabase(options: {
       const { data, error } = await client.rpc('list_columns', { p_table: table })
       if (error) throw error
       columns.value = (data as { column_name: string }[]).map(r => r.column_name)
-      console.log(`[Supabase] Table "${table}" columns:`, columns.value)
+      log.info(`[Supabase] Table "${table}" columns:`, columns.value)
     } catch {
       try {
-        const { data } = await client!.from(table).select('*').limit(1)
-        if (data && data.length > 0) {
-          columns.value = Object.keys(data[0])
-          console.log(`[Supabase] Discovered columns from data:`, columns.value)
+        columns.value = Object.keys((await describeSchema())[table]?.properties ?? {})
+        if (columns.value.length > 0) {
+          log.info('[Supabase] Columns from the API description:', columns.value)
         } else {
-          console.log('[Supabase] Table is empty — type column name manually')
+          log.info(`[Supabase] Table "${table}" not described — type column name manually`)
         }
       } catch (e: any) {
-        console.error('[Supabase] Failed to fetch columns:', e.message)
+        log.error('[Supabase] Failed to fetch columns:', e.message)
       }
     }
   }
 
-  // ─── Send Message (auto-chunks if needed) ──────────────
-  async function sendMessage(
-    encryptedBase64: string,
-    onProgress?: (sent: number, total: number) => void
-  ): Promise<boolean> {
-    if (!client || !isConfigured.value || !options.fingerprint.value) return false
-
-    // If small enough, send as single message
-    if (encryptedBase64.length <= CHUNK_SIZE) {
-      onProgress?.(1, 1)
-      return sendSingleMessage(encryptedBase64)
-    }
-
-    // Otherwise, split into chunks
-    return sendChunked(encryptedBase64, onProgress)
+  // OpenAPI description PostgREST serves at its root: a definition per table
+  // the key can use, with its columns as properties
+  async function describeSchema(): Promise<Record<string, { properties?: Record<string, unknown> }>> {
+    const { url, anonKey } = settings.value
+    const res = await fetch(`${url}/rest/v1/`, { headers: { apikey: anonKey, Authorization: `Bearer ${anonKey}` } })
+    if (!res.ok) throw new Error(`API description unavailable (HTTP ${res.status})`)
+    return (await res.json()).definitions ?? {}
   }
 
-  async function sendSingleMessage(encryptedBase64: string): Promise<boolean> {
-    const envelope: DbMessageEnvelope = {
-      s: options.fingerprint.value,
-      d: encryptedBase64,
-    }
-
-    const row: Record<string, string> = { [settings.value.column]: JSON.stringify(envelope) }
-    if (settings.value.senderColumn) {
-      row[settings.value.senderColumn] = options.fingerprint.value
-    }
-
-    const { error } = await client!.from(settings.value.table).insert(row)
-    if (error) {
-      console.error('[Supabase] Insert failed:', error.message)
-      return false
+  // ─── Validate Backend ───────────────────────────────────
+  // Probes insert/select/update/delete, Realtime and Storage with a throwaway
+  // row and object; results fill in as each check finishes
+  async function validateBackend(): Promise<ProbeResult[]> {
+    if (!client || !isConfigured.value || isProbing.value) return probeResults.value
+    isProbing.value = true
+    probeResults.value = []
+    log.info('[Supabase] Validating backend...')
+    try {
+      await probeBackend(client, settings.value, {
+        onResult: (result) => {
+          probeResults.value = [...probeResults.value, result]
+          log.info(`[Supabase] Check ${result.check}: ${result.status} — ${result.detail}`)
+        },
+      })
+    } catch (err: any) {
+      log.error('[Supabase] Validation failed:', err.message)
+    } finally {
+      isProbing.value = false
     }
-
-    console.log('[Supabase] Message sent to DB')
-    return true
+    return probeResults.value
   }
 
-  async function sendChunked(
+  // ─── Send Message (auto-chunks if needed) ──────────────
+  async function sendMessage(
+    route: DbRoute,
     encryptedBase64: string,
     onProgress?: (sent: number, total: number) => void
   ): Promise<boolean> {
-    const mid = Math.random().toString(36).slice(2, 8)
-    const totalChunks = Math.ceil(encryptedBase64.length / CHUNK_SIZE)
-    const BATCH_SIZE = 10
-
-    console.log(`[Supabase] Sending chunked message: mid=${mid}, ${totalChunks} chunks, total ${encryptedBase64.length} chars`)
-
-    // Build all chunk rows
-    const allRows: Record<string, string>[] = []
-    for (let seq = 0; seq < totalChunks; seq++) {
-      const start = seq * CHUNK_SIZE
-      const chunkData = encryptedBase64.slice(start, start + CHUNK_SIZE)
-
-      const envelope: DbChunkEnvelope = {
-        s: options.fingerprint.value,
-        t: 'chunk',
-        mid,
-        seq,
-        total: totalChunks,
-        d: chunkData,
-      }
+    const frames = envelopes.frame(route, encryptedBase64)
+    return (await sendEnvelopes(route, frames, 0, onProgress)) === frames.length
+  }
 
-      const row: Record<string, string> = { [settings.value.column]: JSON.stringify(envelope) }
+  async function sendEnvelopes(
+    route: DbRoute,
+    frames: Envelope[],
+    from: number,
+    onProgress?: (sent: number, total: number) => void,
+    onStored?: (pks: Array<string | number>) => void
+  ): Promise<number> {
+    if (!client || !isConfigured.value || !route.fingerprint) return from
+
+    // Envelopes whose recipient is gone are skipped (see useEnvelopes.address)
+    const rows = frames.map((envelope) => {
+      const wire = envelopes.address(route, envelope)
+      if (!wire) return null
+      const row: Record<string, string> = { [settings.value.column]: JSON.stringify(wire) }
       if (settings.value.senderColumn) {
-        row[settings.value.senderColumn] = options.fingerprint.value
+        row[settings.value.senderColumn] = wire.s
       }
-      allRows.push(row)
-    }
-
-    // Send in batches for progress + reliability
-    let sent = 0
-    for (let i = 0; i < allRows.length; i += BATCH_SIZE) {
-      const batch = allRows.slice(i, i + BATCH_SIZE)
-      const { error } = await client!.from(settings.value.table).insert(batch)
+      return row
+    })
+
+    // Send in batches for progress + reliability — a failed batch is retried from its start
+    let sent = from
+    for (let i = from; i < rows.length; i += BATCH_SIZE) {
+      const batch = rows.slice(i, i + BATCH_SIZE)
+      // Row IDs are only read back when asked for, as that needs select access
+      const insert = client.from(settings.value.table).insert(batch.filter(row => row !== null))
+      const { data, error } = onStored ? await insert.select(settings.value.idColumn) : await insert
       if (error) {
-        console.error(`[Supabase] Chunked insert failed at batch ${Math.floor(i / BATCH_SIZE) + 1}:`, error.message)
-        return false
+        log.error(`[Supabase] Insert failed at batch ${Math.floor(i / BATCH_SIZE) + 1}:`, error.message)
+        return sent
       }
+      if (onStored && data) onStored((data as Record<string, any>[]).map(row => row[settings.value.idColumn]))
       sent += batch.length
-      onProgress?.(sent, totalChunks)
-      console.log(`[Supabase] Chunks sent: ${sent}/${totalChunks} (mid=${mid})`)
+      onProgress?.(sent, rows.length)
+      if (rows.length > 1) log.info(`[Supabase] Chunks sent: ${sent}/${rows.length}`)
     }
 
-    console.log(`[Supabase] All ${totalChunks} chunks sent (mid=${mid})`)
-    return true
+    log.info('[Supabase] Message sent to DB')
+    return sent
   }
 
   // ─── Process Incoming Row ─────────────────────────────────
-  // Returns: 'message' row for immediate delivery, 'chunk' buffered, or null if skipped
-  function processIncomingRow(rec: Record<string, any>): { type: 'message'; row: DbMessageRow } | { type: 'assembled'; data: string; pks: (string | number)[] } | null {
-    const { column, idColumn } = settings.value
-    const raw = rec[column]
-    if (!raw) return null
-
-    const parsed = typeof raw === 'string' ? JSON.parse(raw) : raw
-
-    // Only accept messages from our specific peer (ignore other chat pairs)
-    if (!options.peerFingerprint.value || parsed.s !== options.peerFingerprint.value) return null
-
-    // Chunk envelope
-    if (parsed.t === 'chunk') {
-      const chunk = parsed as DbChunkEnvelope
-      const pk = rec[idColumn]
-
-      let buf = chunkBuffer.get(chunk.mid)
-      if (!buf) {
-        buf = { total: chunk.total, receivedAt: Date.now(), chunks: new Map(), pks: [] }
-        chunkBuffer.set(chunk.mid, buf)
-      }
-
-      buf.chunks.set(chunk.seq, chunk.d)
-      buf.pks.push(pk)
-      buf.receivedAt = Date.now()
-
-      console.log(`[Supabase] Chunk ${chunk.seq + 1}/${chunk.total} for mid=${chunk.mid}`)
-
-      // Update progress for UI
-      chunkProgress.value = { mid: chunk.mid, received: buf.chunks.size, total: buf.total }
-
-      // Check if complete
-      if (buf.chunks.size === buf.total) {
-        // Reassemble in order
-        let assembled = ''
-        for (let i = 0; i < buf.total; i++) {
-          assembled += buf.chunks.get(i) || ''
-        }
-        const pks = [...buf.pks]
-        chunkBuffer.delete(chunk.mid)
-        chunkProgress.value = null
-
-        console.log(`[Supabase] All chunks received for mid=${chunk.mid} — assembled ${assembled.length} chars`)
-        return { type: 'assembled', data: assembled, pks }
-      }
-
-      return null // Still waiting for more chunks
-    }
-
-    // Regular message envelope
-    if (parsed.s && parsed.d) {
-      return { type: 'message', row: { pk: rec[idColumn], data: raw } }
+  // Chunk rows of a reassembled message are deleted right away; the message
+  // row itself is deleted by the app once it has been decrypted
+  function processIncomingRow(rec: Record<string, any>): DbMessageRow | null {
+    const result: ReceivedEnvelope | null = envelopes.receive(rec[settings.value.column], rec[settings.value.idColumn])
+    if (!result) return null
+    for (const pk of result.chunkPks) {
+      deleteMessage(pk)
     }
-
-    return null
+    return result.row
   }
 
   // ─── Poll Messages ──────────────────────────────────────
   async function pollOnce() {
-    if (!client || !isConfigured.value || !options.fingerprint.value || !options.peerFingerprint.value) return
+    const tags = envelopes.pollTags(!caughtUp)
+    if (!client || !isConfigured.value || tags.length === 0) return
 
-    // Cleanup stale chunk buffers
-    cleanupStaleChunks()
+    // Cleanup stale chunk buffers (and their rows)
+    envelopes.cleanupStaleChunks(pks => pks.forEach(deleteMessage))
 
     const { table, column, idColumn, senderColumn } = settings.value
 
-    let query = client
-      .from(table)
-      .select(`${idColumn}, ${column}`)
-      .order(idColumn, { ascending: true })
-
-    // Server-side filtering: only fetch rows from our peer
-    if (senderColumn && options.peerFingerprint.value) {
-      query = query.eq(senderColumn, options.peerFingerprint.value)
-    }
-
-    const { data, error } = await query
-
-    if (error) {
-      console.error('[Supabase] Poll failed:', error.message)
-      return
+    // Server-side filtering: only fetch rows in our mailboxes, a batch of tags
+    // per query. Without a tag column every row is fetched and matched here.
+    const batches = senderColumn
+      ? Array.from({ length: Math.ceil(tags.length / TAG_BATCH_SIZE) }, (_, i) => tags.slice(i * TAG_BATCH_SIZE, (i + 1) * TAG_BATCH_SIZE))
+      : [null]
+    const data: Record<string, any>[] = []
+    for (const batch of batches) {
+      let query = client
+        .from(table)
+        .select(`${idColumn}, ${column}`)
+        .order(idColumn, { ascending: true })
+      if (batch) query = query.in(senderColumn, batch)
+
+      const { data: rows, error } = await query
+      if (error) {
+        log.error('[Supabase] Poll failed:', error.message)
+        return
+      }
+      data.push(...rows ?? [])
     }
+    caughtUp = true
 
-    if (!data || data.length === 0) return
+    if (data.length === 0) return
+    // Deliver in insertion order across batches
+    data.sort((a, b) => (a[idColumn] < b[idColumn] ? -1 : a[idColumn] > b[idColumn] ? 1 : 0))
 
     const incoming: DbMessageRow[] = []
     for (const row of data) {
       try {
-        const rec = row as Record<string, any>
-        const result = processIncomingRow(rec)
-        if (!result) continue
-
-        if (result.type === 'message') {
-          incoming.push(result.row)
-        } else if (result.type === 'assembled') {
-          // Create a synthetic message row with the reassembled data
-          const envelope: DbMessageEnvelope = {
-            s: '', // fingerprint already checked in processIncomingRow
-            d: result.data,
-          }
-          incoming.push({ pk: result.pks[0]!, data: JSON.stringify(envelope) })
-          // Delete all chunk rows from DB
-          for (const pk of result.pks) {
-            deleteMessage(pk)
-          }
-        }
+        const result = processIncomingRow(row)
+        if (result) incoming.push(result)
       } catch {
         // skip malformed rows
       }
     }
 
     if (incoming.length > 0) {
-      console.log(`[Supabase] Polled ${incoming.length} new message(s)`)
+      log.info(`[Supabase] Polled ${incoming.length} new message(s)`)
       options.onMessages(incoming)
     }
   }
@@ -384,12 +313,44 @@ export function useSupabase(options: {
       .eq(settings.value.idColumn, pk)
 
     if (error) {
-      console.error('[Supabase] Delete failed:', error.message)
+      log.error('[Supabase] Delete failed:', error.message)
     } else {
-      console.log(`[Supabase] Deleted message ${settings.value.idColumn}=${pk}`)
+      log.info(`[Supabase] Deleted message ${settings.value.idColumn}=${pk}`)
+      envelopes.release([pk])
     }
   }
 
+  // ─── File Storage ───────────────────────────────────────
+  // Large attachments are uploaded as encrypted chunks (see files.ts); the
+  // bucket only ever sees ciphertext under random object names.
+  const hasStorage = computed(() => isConnected.value && settings.value.bucket !== '')
+
+  const fileStore: FileStore = {
+    kind: 'supabase',
+
+    async put(path, data) {
+      if (!client || !hasStorage.value) throw new Error('Storage bucket not configured')
+      const { error } = await client.storage
+        .from(settings.value.bucket)
+        .upload(path, new Blob([data as Uint8Array<ArrayBuffer>]), { contentType: 'application/octet-stream', upsert: true })
+      if (error) throw new Error(`Upload failed: ${error.message}`)
+    },
+
+    async get(path) {
+      if (!client || !hasStorage.value) throw new Error('Storage bucket not configured')
+      const { data, error } = await client.storage.from(settings.value.bucket).download(path)
+      if (error || !data) throw new Error(`Download failed: ${error?.message ?? 'empty object'}`)
+      return new Uint8Array(await data.arrayBuffer())
+    },
+
+    async remove(paths) {
+      if (!client || !hasStorage.value || paths.length === 0) return
+      const { error } = await client.storage.from(settings.value.bucket).remove(paths)
+      if (error) log.error('[Supabase] Storage delete failed:', error.message)
+      else log.info(`[Supabase] Deleted ${paths.length} stored chunk(s)`)
+    },
+  }
+
   // ─── Polling Engine ────────────────────────────────────
   function schedulePoll(interval: number) {
     if (!isSyncing.value) return
@@ -403,7 +364,7 @@ export function useSupabase(options: {
 
   function startPollLoop(interval: number) {
     stopPollLoop()
-    console.log(`[Supabase] Poll loop started (interval: ${Math.round(interval / 1000)}s)`)
+    log.info(`[Supabase] Poll loop started (interval: ${Math.round(interval / 1000)}s)`)
     pollOnce()
     schedulePoll(interval)
   }
@@ -417,7 +378,7 @@ export function useSupabase(options: {
 
   // ─── Realtime Subscription ────────────────────────────────
   function tryRealtime() {
-    if (!client || !isConfigured.value || !options.fingerprint.value) return
+    if (!client || !isConfigured.value) return
 
     const { table } = settings.value
 
@@ -428,24 +389,11 @@ export function useSupabase(options: {
         { event: 'INSERT', schema: 'public', table },
         (payload) => {
           try {
-            const rec = payload.new as Record<string, any>
-            const result = processIncomingRow(rec)
+            const result = processIncomingRow(payload.new as Record<string, any>)
             if (!result) return
 
-            if (result.type === 'message') {
-              console.log('[Supabase] Realtime: new message received')
-              options.onMessages([result.row])
-            } else if (result.type === 'assembled') {
-              console.log('[Supabase] Realtime: chunked message fully assembled')
-              const envelope: DbMessageEnvelope = {
-                s: '',
-                d: result.data,
-              }
-              options.onMessages([{ pk: result.pks[0]!, data: JSON.stringify(envelope) }])
-              for (const pk of result.pks) {
-                deleteMessage(pk)
-              }
-            }
+            log.info('[Supabase] Realtime: new message received')
+            options.onMessages([result])
           } catch {
             // skip malformed realtime events
           }
@@ -454,12 +402,12 @@ export function useSupabase(options: {
       .subscribe((status) => {
         if (status === 'SUBSCRIBED') {
           isListening.value = true
-          console.log('[Supabase] Realtime active — switching poll to backup (5 min)')
+          log.info('[Supabase] Realtime active — switching poll to backup (5 min)')
           // Switch polling to 5 min backup interval
           stopPollLoop()
           startPollLoop(REALTIME_BACKUP_INTERVAL)
         } else if (status === 'CHANNEL_ERROR') {
-          console.warn('[Supabase] Realtime unavailable — polling at configured interval')
+          log.warn('[Supabase] Realtime unavailable — polling at configured interval')
           isListening.value = false
           // Keep polling at user's configured interval (already running or restart)
           stopPollLoop()
@@ -468,6 +416,32 @@ export function useSupabase(options: {
       })
   }
 
+  // ─── Broadcast Channels ──────────────────────────────────
+  // Ephemeral messages between clients on one topic; nothing is written to the
+  // table. A channel Realtime refuses is dropped without a word — callers see
+  // no events, and join again the next time Realtime comes up.
+  function joinChannel(topic: string, onMessage: (data: unknown) => void): PresenceChannel | null {
+    if (!client) return null
+    const owner = client
+    let subscribed = false
+    const channel = owner
+      .channel(topic, { config: { broadcast: { self: false } } })
+      .on('broadcast', { event: 'e' }, ({ payload }) => onMessage(payload?.d))
+      .subscribe((status) => {
+        subscribed = status === 'SUBSCRIBED'
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') owner.removeChannel(channel)
+      })
+    return {
+      send: (data) => {
+        if (subscribed) channel.send({ type: 'broadcast', event: 'e', payload: { d: data } })
+      },
+      leave: () => {
+        subscribed = false
+        owner.removeChannel(channel)
+      },
+    }
+  }
+
   function stopRealtime() {
     if (realtimeChannel && client) {
       client.removeChannel(realtimeChannel)
@@ -481,7 +455,8 @@ export function useSupabase(options: {
     if (!isConfigured.value) return
 
     isSyncing.value = true
-    console.log('[Supabase] Starting sync...')
+    caughtUp = false
+    log.info('[Supabase] Starting sync...')
 
     // Start polling immediately at user interval
     startPollLoop(settings.value.pollInterval)
@@ -494,11 +469,12 @@ export function useSupabase(options: {
     isSyncing.value = false
     stopRealtime()
     stopPollLoop()
-    chunkBuffer.clear()
-    console.log('[Supabase] Sync stopped')
+    envelopes.clear()
+    log.info('[Supabase] Sync stopped')
   }
 
   return {
+    kind: 'supabase' as const,
     settings,
     connectionState,
     connectionError,
@@ -506,17 +482,28 @@ export function useSupabase(options: {
     isConfigured,
     isSyncing,
     isListening,
-    chunkProgress,
+    hasStorage,
+    fileStore,
+    chunkProgress: envelopes.chunkProgress,
+    quarantine: envelopes.quarantine,
+    rejectedCount: envelopes.rejectedCount,
     tables,
     columns,
+    probeResults,
+    isProbing,
 
     connect,
     disconnect,
     fetchTables,
     fetchColumns,
+    validateBackend,
+    joinChannel,
     sendMessage,
+    sendEnvelopes,
     pollOnce,
     deleteMessage,
+    rejectRow: envelopes.reject,
+    purgeQuarantine: () => envelopes.purge(deleteMessage),
     startSync,
     stopSync,
   }
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi } from 'vitest'
+import nacl from 'tweetnacl'
+import {
+  deriveChainKeys,
+  deriveRootKey,
+  ratchetStep,
+  dhRatchet,
+  rootRatchet,
+  encryptMessage,
+  decryptMessage,
+  parseMessageHeader,
+  decodeBase64,
+  encodeBase64,
+} from './crypto'
+
+// Known-answer vectors: kdf(x) = SHA-512(x)[0..32], labels as in crypto.ts
+
+const hex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')
+const fill = (value: number, length = 32) => new Uint8Array(length).fill(value)
+const counting = Uint8Array.from({ length: 32 }, (_, i) => i)
+
+const A_SECRET = fill(0x33)
+const B_SECRET = fill(0x44)
+const A_PUBLIC = nacl.scalarMult.base(A_SECRET)
+const B_PUBLIC = nacl.scalarMult.base(B_SECRET)
+
+// crypto.ts logs every stage
+vi.spyOn(console, 'log').mockImplementation(() => {})
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+describe('deriveChainKeys', () => {
+  const chain1 = '6c2529d6d92158ea9753a2243f51dba0f3d9ee46957f86ae18f1008ea5469784'
+  const chain2 = '22dcc6ea7a4a2af0311fd9d60552c59cb990e4bbb76ec937ad32b16c94cd9f09'
+
+  it('gives the smaller public key chain 1 as its sending chain', () => {
+    const keys = deriveChainKeys(counting, fill(0x01), fill(0x02))
+    expect(hex(keys.sendChain)).toBe(chain1)
+    expect(hex(keys.recvChain)).toBe(chain2)
+  })
+
+  it('mirrors the chains for the other side', () => {
+    const keys = deriveChainKeys(counting, fill(0x02), fill(0x01))
+    expect(hex(keys.sendChain)).toBe(chain2)
+    expect(hex(keys.recvChain)).toBe(chain1)
+  })
+
+  it('derives a root key distinct from both chains', () => {
+    expect(hex(deriveRootKey(counting))).toBe('f47227e3b7aec25a999bf126f50cb1ab9b1b162582400c98c04bc1d5cc5e252b')
+  })
+})
+
+describe('ratchetStep', () => {
+  it('derives the next chain key and message key', () => {
+    const first = ratchetStep(fill(0x11))
+    expect(hex(first.nextChainKey)).toBe('98887b892352e42fef4689f965dd62df8c4779322718c952280b4e3f3a738b73')
+    expect(hex(first.messageKey)).toBe('5121d709d531e7e25f855cf7e53c9db5678a61f058091b2c6f0bc5e0b8b41767')
+
+    const second = ratchetStep(first.nextChainKey)
+    expect(hex(second.nextChainKey)).toBe('8a80e69439777b5a66f5f3ab164da67be85f5292d06a3d2852c727870e3dd997')
+    expect(hex(second.messageKey)).toBe('cfa37d32b9ea02c169756258398e1ad863e4a40a6ee9e638ee1c58e7fe186e34')
+  })
+})
+
+describe('dhRatchet', () => {
+  const expected = '5d6b9978dac99846ce6d9356bd60c862d2ea4174f12e2e5ecbe0ae8cee90a748'
+
+  it('mixes the DH output into the key', () => {
+    expect(hex(dhRatchet(fill(0x22), A_SECRET, B_PUBLIC))).toBe(expected)
+  })
+
+  it('gives both parties the same result', () => {
+    expect(hex(dhRatchet(fill(0x22), B_SECRET, A_PUBLIC))).toBe(expected)
+  })
+
+  it('splits into root and chain key in rootRatchet', () => {
+    const next = rootRatchet(fill(0x22), A_SECRET, B_PUBLIC)
+    expect(hex(next.rootKey)).toBe('e90b17daa1b0615a478444bde595b941c09c98c04ac9c930ba8ad1760deadaef')
+    expect(hex(next.chainKey)).toBe('6f743674502d8d58c21f69577312702032a4107438f736bf67a6c00447e65357')
+  })
+})
+
+describe('message encryption', () => {
+  const messageKey = ratchetStep(fill(0x11)).messageKey
+  // header { dh: A_PUBLIC, pn: 2, n: 5 }, nonce 0x55 × 24, payload { text: 'hello' }
+  const vector = 'ew1H2TQn+DERYHgcfHM/2J+IlwrvSQ2KoO4ZpMuKGxQAAAACAAAABVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVVSG0EMyhdtMQaNYd10HpHIW142VEb3qzC+trMCoS9lCW'
+
+  it('decrypts the wire-format vector', () => {
+    expect(parseMessageHeader(vector)).toEqual({ dh: A_PUBLIC, pn: 2, n: 5 })
+    expect(decryptMessage(messageKey, vector)).toEqual({ text: 'hello' })
+  })
+
+  it('round-trips a payload', () => {
+    const payload = { text: 'hi', attachments: [{ type: 'file' as const, mime: 'text/plain', data: 'AAEC', name: 'a.txt' }] }
+    const encrypted = encryptMessage(messageKey, { dh: B_PUBLIC, pn: 0, n: 1 }, payload)
+    expect(decryptMessage(messageKey, encrypted)).toEqual(payload)
+  })
+
+  it('rejects a tampered header', () => {
+    const bytes = decodeBase64(vector)
+    bytes[39]! ^= 1 // n: 5 → 4
+    expect(decryptMessage(messageKey, encodeBase64(bytes))).toBeNull()
+  })
+
+  it('rejects a tampered ciphertext', () => {
+    const bytes = decodeBase64(vector)
+    bytes[bytes.length - 1]! ^= 1
+    expect(decryptMessage(messageKey, encodeBase64(bytes))).toBeNull()
+  })
+
+  it('rejects the wrong message key', () => {
+    expect(decryptMessage(fill(0x11), vector)).toBeNull()
+  })
+
+  it('returns null for an authentic plaintext that is not a JSON object', () => {
+    for (const plaintext of ['{"text": "cut sh', '5']) {
+      vi.spyOn(JSON, 'stringify').mockReturnValueOnce(plaintext)
+      const encrypted = encryptMessage(messageKey, { dh: B_PUBLIC, pn: 0, n: 1 }, { text: 'ignored' })
+      expect(decryptMessage(messageKey, encrypted)).toBeNull()
+    }
+  })
+
+  it('reports progress while sealing and opening a large payload', () => {
+    const payload = { text: 'x'.repeat(1_200_000) }
+    const sealing: string[] = []
+    const encrypted = encryptMessage(messageKey, { dh: B_PUBLIC, pn: 0, n: 1 }, payload, undefined, null, (stage, done, total) => sealing.push(`${stage} ${done}/${total}`))
+    expect(sealing.filter(p => p.startsWith('armor'))).toHaveLength(2)
+    expect(sealing[sealing.length - 1]).toMatch(/^armor (\d+)\/\1$/)
+
+    const opening: string[] = []
+    expect(decryptMessage(messageKey, encrypted, stage => opening.push(stage))).toEqual(payload)
+    expect(opening).toEqual(['decode', 'decode', 'open', 'open', 'parse', 'parse'])
+  })
+})
@@ -1,28 +1,114 @@
 import nacl from 'tweetnacl'
 import { encodeBase64, decodeBase64 } from 'tweetnacl-util'
+import type { FileRef } from './files'
+import { encodePayload, decodePayload, DEFAULT_PAYLOAD_OPTIONS, type PayloadOptions } from './padding'
+import { OUR_CAPABILITIES, LEGACY_CAPABILITIES, MIN_PEER_VERSION, type Capabilities } from './protocol'
+import type { SenderKeyDistribution } from './group'
+import type { TransportKind } from './types/transport'
+import { log, secret } from './log'
 
 // ─── Types ───────────────────────────────────────────────────────
 
 export interface Attachment {
   type: 'audio' | 'image' | 'file'
   mime: string
-  data: string // base64-encoded binary
+  data?: string // base64-encoded binary (small files)
+  file?: FileRef // large files: encrypted chunks in a file store
   name?: string // filename for file attachments
+  // Previews, shown before the attachment has loaded (see media.ts)
+  width?: number      // image: pixels, after resizing
+  height?: number
+  thumb?: string      // image: data URL of a JPEG of at most 24 px, drawn blurred
+  duration?: number   // voice note: seconds
+  waveform?: number[] // voice note: peak level per bar, 0–31
 }
 
+// Acknowledges earlier messages by their payload `id`
+export interface Receipt {
+  t: 'delivered' | 'read'
+  ids: string[]
+}
+
+// Group membership and sender keys, sent over the pairwise session
+export interface GroupControl {
+  t: 'update' | 'key' | 'leave'
+  g: string                   // group ID
+  name?: string               // update
+  cm?: TransportKind          // update: transport the group's messages use
+  members?: string[]          // update: identity keys (base64) of every member, empty when disbanded
+  epoch?: number              // update: bumped on removal — members rotate their sender keys
+  key?: SenderKeyDistribution // key
+}
+
+// A chat message quoted by a reply. The snippet lets the peer show the quote
+// even when the original is gone from their history.
+export interface ReplyRef {
+  id: string    // quoted message's payload `id`
+  text?: string // start of its text
+}
+
+// Changes to an earlier message, referenced by its payload `id`. Only the
+// message's sender may edit or delete it; anyone in the chat may react.
+export type MessageAction =
+  | { t: 'edit'; id: string; text: string }
+  | { t: 'delete'; id: string }
+  | { t: 'react'; id: string; e: string } // one emoji per person, '' takes it back
+
 export interface MessagePayload {
+  id?: string // random message ID — referenced by receipts, replies and actions
   text?: string
   attachments?: Attachment[]
-  ratchetKey: string // base64 ephemeral public key for DH ratchet
+  reply?: ReplyRef
+  receipt?: Receipt
+  group?: GroupControl
+  action?: MessageAction
+  ttl?: number // chat messages: the sender's disappearing-message timer in seconds (see expiry.ts)
+  pv?: number // sender's protocol version — pairwise messages only (see protocol.ts)
+  pf?: number // sender's feature bits
+}
+
+export interface MessageHeader {
+  dh: Uint8Array // sender's current ratchet public key
+  pn: number     // number of messages in the sender's previous sending chain
+  n: number      // index of this message in the current sending chain
+}
+
+// Steps of sealing and opening a message body, reported as they progress
+export type CryptoStage = 'encode' | 'seal' | 'armor' | 'decode' | 'open' | 'parse'
+export type CryptoProgress = (stage: CryptoStage, done: number, total: number) => void
+
+// Seals and opens message bodies once the session has derived the message
+// key. The web app runs them in a worker (see cryptoClient.ts); inlineCipher
+// runs them on the calling thread.
+export interface MessageCipher {
+  seal(
+    messageKey: Uint8Array,
+    header: MessageHeader,
+    payload: MessagePayload,
+    options: PayloadOptions,
+    peerFormats: number | null,
+    onProgress?: CryptoProgress
+  ): Promise<string>
+  open(messageKey: Uint8Array, encoded: string, onProgress?: CryptoProgress): Promise<MessagePayload | null>
+}
+
+// Control messages travel through the ratchet like any other message but are
+// never shown as chat bubbles or counted as messages
+export function isControlPayload(payload: MessagePayload): boolean {
+  return payload.receipt !== undefined || payload.group !== undefined || payload.action !== undefined
+}
+
+export function newMessageId(): string {
+  return encodeBase64(nacl.randomBytes(9))
 }
 
 // ─── Key Generation ───────────────────────────────────────────────
 
-export function generateKeyPair() {
+export function generateKeyPair(): KeyPair {
   const kp = nacl.box.keyPair()
-  console.log('[KeyGen] Generated X25519 key pair')
-  console.log('[KeyGen] Public key:', encodeBase64(kp.publicKey))
-  console.log('[KeyGen] Secret key length:', kp.secretKey.length, 'bytes')
+  log.info('[KeyGen] Generated X25519 key pair')
+  log.debug('[KeyGen] Public key:', encodeBase64(kp.publicKey))
+  log.debug('[KeyGen] Secret key length:', kp.secretKey.length, 'bytes')
   return { publicKey: kp.publicKey, secretKey: kp.secretKey }
 }
 
@@ -32,14 +118,14 @@ export function computeSharedSecret(
   ourSecretKey: Uint8Array,
   theirPublicKey: Uint8Array
 ): Uint8Array {
-  console.log('[ECDH] Computing shared secret...')
-  console.log('[ECDH] Our secret key length:', ourSecretKey.length, 'bytes')
-  console.log('[ECDH] Their public key:', encodeBase64(theirPublicKey))
+  log.debug('[ECDH] Computing shared secret...')
+  log.debug('[ECDH] Our secret key length:', ourSecretKey.length, 'bytes')
+  log.debug('[ECDH] Their public key:', encodeBase64(theirPublicKey))
 
   const shared = nacl.box.before(theirPublicKey, ourSecretKey)
 
-  console.log('[ECDH] Shared secret computed:', encodeBase64(shared))
-  console.log('[ECDH] Shared secret length:', shared.length, 'bytes')
+  log.debug('[ECDH] Shared secret computed:', secret(encodeBase64(shared)))
+  log.debug('[ECDH] Shared secret length:', shared.length, 'bytes')
   return shared
 }
 
@@ -49,9 +135,87 @@ function kdf(input: Uint8Array): Uint8Array {
   return nacl.hash(input).slice(0, 32)
 }
 
+// ─── Handshake ───────────────────────────────────────────────────
+// Each side contributes its long-term identity key and a fresh ephemeral key.
+// The secret mixes DH(ephemeral, ephemeral) with both identity/ephemeral
+// cross terms, so it is unique per chat and only the holders of the two
+// identity keys can compute it.
+
+export interface KeyPair {
+  publicKey: Uint8Array
+  secretKey: Uint8Array
+}
+
+// Code layout: identity key (32) | ephemeral key (32) | protocol version
+// (uint8) | feature bits (uint32 BE). Codes without the last two come from
+// builds before versioning; bytes after them are left for later versions.
+
+const CAPABILITIES_LENGTH = 5
+
+export function encodeHandshakeCode(
+  identityPublic: Uint8Array,
+  ephemeralPublic: Uint8Array,
+  caps: Capabilities = OUR_CAPABILITIES
+): string {
+  const keys = identityPublic.length + ephemeralPublic.length
+  const combined = new Uint8Array(keys + CAPABILITIES_LENGTH)
+  combined.set(identityPublic)
+  combined.set(ephemeralPublic, identityPublic.length)
+  combined[keys] = caps.v
+  new DataView(combined.buffer).setUint32(keys + 1, caps.f)
+  return encodeBase64(combined)
+}
+
+// Throws on anything that is not identity key + ephemeral key
+export function decodeHandshakeCode(code: string): { identity: Uint8Array; ephemeral: Uint8Array; caps: Capabilities } {
+  let bytes: Uint8Array
+  try {
+    bytes = decodeBase64(code.trim())
+  } catch {
+    throw new Error('Invalid handshake code')
+  }
+  const keys = nacl.box.publicKeyLength * 2
+  if (bytes.length === nacl.box.publicKeyLength) {
+    throw new Error('This code is from an older version of XChat — ask your partner to update')
+  }
+  if (bytes.length !== keys && bytes.length < keys + CAPABILITIES_LENGTH) throw new Error('Invalid handshake code')
+
+  const caps = bytes.length === keys
+    ? LEGACY_CAPABILITIES
+    : { v: bytes[keys]!, f: new DataView(bytes.buffer, bytes.byteOffset).getUint32(keys + 1) }
+  if (caps.v < MIN_PEER_VERSION) {
+    throw new Error('This code is from an older version of XChat — ask your partner to update')
+  }
+  return { identity: bytes.slice(0, 32), ephemeral: bytes.slice(32, keys), caps }
+}
+
+export function computeHandshakeSecret(
+  ourIdentity: KeyPair,
+  ourEphemeral: KeyPair,
+  theirIdentity: Uint8Array,
+  theirEphemeral: Uint8Array
+): Uint8Array {
+  log.debug('[Handshake] Computing handshake secret...')
+  const ee = computeSharedSecret(ourEphemeral.secretKey, theirEphemeral)
+  const ie = nacl.box.before(theirEphemeral, ourIdentity.secretKey)
+  const ei = nacl.box.before(theirIdentity, ourEphemeral.secretKey)
+
+  // The peer computes the same two cross terms with roles swapped — sort them
+  const [first, second] = compareKeys(ie, ei) < 0 ? [ie, ei] : [ei, ie]
+
+  const input = new Uint8Array(ee.length + first.length + second.length)
+  input.set(ee)
+  input.set(first, ee.length)
+  input.set(second, ee.length + first.length)
+
+  const handshakeSecret = kdf(input)
+  log.debug('[Handshake] Handshake secret:', secret(encodeBase64(handshakeSecret)))
+  return handshakeSecret
+}
+
 // ─── Chain Key Derivation ────────────────────────────────────────
 
-function compareKeys(a: Uint8Array, b: Uint8Array): number {
+export function compareKeys(a: Uint8Array, b: Uint8Array): number {
   for (let i = 0; i < a.length; i++) {
     if (a[i]! < b[i]!) return -1
     if (a[i]! > b[i]!) return 1
@@ -59,15 +223,19 @@ function compareKeys(a: Uint8Array, b: Uint8Array): number {
   return 0
 }
 
+export function keysEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && compareKeys(a, b) === 0
+}
+
 export function deriveChainKeys(
   sharedSecret: Uint8Array,
   ourPublicKey: Uint8Array,
   theirPublicKey: Uint8Array
 ) {
-  console.log('[ChainDerive] Deriving send/receive chain keys from shared secret...')
+  log.debug('[ChainDerive] Deriving send/receive chain keys from shared secret...')
 
   const weAreSmaller = compareKeys(ourPublicKey, theirPublicKey) < 0
-  console.log('[ChainDerive] Our public key is lexicographically', weAreSmaller ? 'SMALLER' : 'LARGER')
+  log.debug('[ChainDerive] Our public key is lexicographically', weAreSmaller ? 'SMALLER' : 'LARGER')
 
   const input1 = new Uint8Array(sharedSecret.length + 1)
   input1.set(sharedSecret)
@@ -83,13 +251,25 @@ export function deriveChainKeys(
   const sendChain = weAreSmaller ? chain1 : chain2
   const recvChain = weAreSmaller ? chain2 : chain1
 
-  console.log('[ChainDerive] Send chain key:', encodeBase64(sendChain))
-  console.log('[ChainDerive] Recv chain key:', encodeBase64(recvChain))
-  console.log('[ChainDerive] Chain keys derived successfully')
+  log.debug('[ChainDerive] Send chain key:', secret(encodeBase64(sendChain)))
+  log.debug('[ChainDerive] Recv chain key:', secret(encodeBase64(recvChain)))
+  log.debug('[ChainDerive] Chain keys derived successfully')
 
   return { sendChain, recvChain }
 }
 
+// The root key seeds every DH ratchet step. It is derived from the same
+// handshake secret but with its own label, so it never equals a chain key.
+export function deriveRootKey(sharedSecret: Uint8Array): Uint8Array {
+  const input = new Uint8Array(sharedSecret.length + 1)
+  input.set(sharedSecret)
+  input[sharedSecret.length] = 0x03
+
+  const rootKey = kdf(input)
+  log.debug('[ChainDerive] Root key:', secret(encodeBase64(rootKey)))
+  return rootKey
+}
+
 // ─── Symmetric Ratchet (Forward Secrecy) ─────────────────────────
 
 export function ratchetStep(chainKey: Uint8Array): {
@@ -107,105 +287,289 @@ export function ratchetStep(chainKey: Uint8Array): {
   const nextChainKey = kdf(ckInput)
   const messageKey = kdf(mkInput)
 
-  console.log('[Ratchet] Chain key advanced')
-  console.log('[Ratchet] Previous chain key:', encodeBase64(chainKey))
-  console.log('[Ratchet] New chain key:     ', encodeBase64(nextChainKey))
-  console.log('[Ratchet] Message key:       ', encodeBase64(messageKey))
+  log.debug('[Ratchet] Chain key advanced')
+  log.debug('[Ratchet] Previous chain key:', secret(encodeBase64(chainKey)))
+  log.debug('[Ratchet] New chain key:     ', secret(encodeBase64(nextChainKey)))
+  log.debug('[Ratchet] Message key:       ', secret(encodeBase64(messageKey)))
 
   return { nextChainKey, messageKey }
 }
 
 // ─── DH Ratchet ──────────────────────────────────────────────────
-// Incorporates fresh ECDH material into a chain key.
-// After each message, the chain is updated with DH(our_new_secret, peer_public)
-// so future messages are protected even if current chain is compromised.
+// Incorporates fresh ECDH material into a key: kdf(key || DH(our_secret, peer_public)).
+// Used by the root ratchet each time a party sees a new peer ratchet key,
+// so future messages are protected even if the current chain is compromised.
 
 export function dhRatchet(
   chainKey: Uint8Array,
   ourSecretKey: Uint8Array,
   theirPublicKey: Uint8Array
 ): Uint8Array {
-  console.log('[DH-Ratchet] Incorporating fresh ECDH into chain...')
-  console.log('[DH-Ratchet] Their public key:', encodeBase64(theirPublicKey))
+  log.debug('[DH-Ratchet] Incorporating fresh ECDH into chain...')
+  log.debug('[DH-Ratchet] Their public key:', encodeBase64(theirPublicKey))
 
   const dhShared = nacl.box.before(theirPublicKey, ourSecretKey)
-  console.log('[DH-Ratchet] DH shared:', encodeBase64(dhShared))
+  log.debug('[DH-Ratchet] DH shared:', secret(encodeBase64(dhShared)))
 
   const input = new Uint8Array(chainKey.length + dhShared.length)
   input.set(chainKey)
   input.set(dhShared, chainKey.length)
 
   const newChain = kdf(input)
-  console.log('[DH-Ratchet] New chain key:', encodeBase64(newChain))
+  log.debug('[DH-Ratchet] New chain key:', secret(encodeBase64(newChain)))
 
   return newChain
 }
 
+// ─── Root Ratchet ────────────────────────────────────────────────
+// Runs when a new ratchet public key is seen from the peer. The root key is
+// mixed with fresh ECDH output and split into the next root key and a new
+// chain key, so both sides start a fresh chain from the same point.
+
+export function rootRatchet(
+  rootKey: Uint8Array,
+  ourSecretKey: Uint8Array,
+  theirPublicKey: Uint8Array
+): { rootKey: Uint8Array; chainKey: Uint8Array } {
+  const mixed = dhRatchet(rootKey, ourSecretKey, theirPublicKey)
+
+  const rkInput = new Uint8Array(mixed.length + 1)
+  rkInput.set(mixed)
+  rkInput[mixed.length] = 0x01
+
+  const ckInput = new Uint8Array(mixed.length + 1)
+  ckInput.set(mixed)
+  ckInput[mixed.length] = 0x02
+
+  const next = { rootKey: kdf(rkInput), chainKey: kdf(ckInput) }
+  log.debug('[Root-Ratchet] New root key: ', secret(encodeBase64(next.rootKey)))
+  log.debug('[Root-Ratchet] New chain key:', secret(encodeBase64(next.chainKey)))
+
+  return next
+}
+
+// ─── Message Header ──────────────────────────────────────────────
+// Travels in the clear in front of the ciphertext so the receiver can pick
+// the right chain and message key when messages arrive late or out of order.
+// Layout: dh (32 bytes) | pn (uint32 BE) | n (uint32 BE)
+
+export const HEADER_LENGTH = 40
+
+export function encodeHeader(header: MessageHeader): Uint8Array {
+  const bytes = new Uint8Array(HEADER_LENGTH)
+  bytes.set(header.dh)
+  const view = new DataView(bytes.buffer)
+  view.setUint32(32, header.pn)
+  view.setUint32(36, header.n)
+  return bytes
+}
+
+export function decodeHeader(bytes: Uint8Array): MessageHeader {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, HEADER_LENGTH)
+  return {
+    dh: bytes.slice(0, 32),
+    pn: view.getUint32(32),
+    n: view.getUint32(36),
+  }
+}
+
+// Reads the header of an encrypted message without decrypting it
+// Decodes only the leading characters, so a large message is not decoded
+// on the main thread just to read its header
+export function parseMessageHeader(encoded: string): MessageHeader | null {
+  const padding = encoded.endsWith('==') ? 2 : encoded.endsWith('=') ? 1 : 0
+  const length = (encoded.length / 4) * 3 - padding
+  if (encoded.length % 4 !== 0 || length < HEADER_LENGTH + nacl.secretbox.nonceLength + nacl.secretbox.overheadLength) return null
+  try {
+    return decodeHeader(decodeBase64(encoded.slice(0, Math.ceil(HEADER_LENGTH / 3) * 4)).subarray(0, HEADER_LENGTH))
+  } catch {
+    return null
+  }
+}
+
+// Identifies a message key in the skipped-key store
+export function skippedKeyId(dh: Uint8Array, n: number): string {
+  return `${encodeBase64(dh)}:${n}`
+}
+
+// The header is bound to the message key, so changing any header field
+// makes authentication fail just like tampering with the ciphertext.
+function bindHeader(messageKey: Uint8Array, headerBytes: Uint8Array): Uint8Array {
+  const input = new Uint8Array(messageKey.length + headerBytes.length)
+  input.set(messageKey)
+  input.set(headerBytes, messageKey.length)
+  return kdf(input)
+}
+
+// ─── Safety Number ───────────────────────────────────────────────
+// Derived from both identity keys so the two parties can compare it over a
+// trusted channel (in person, voice call). Each key is hashed iteratively into
+// 30 digits; the two halves are sorted so both sides display the same number.
+
+const SAFETY_ITERATIONS = 1024
+
+// 64 emoji/word pairs — one byte of the hash (mod 64) picks an entry
+export const SAFETY_EMOJI: ReadonlyArray<readonly [string, string]> = [
+  ['🐶', 'dog'], ['🐱', 'cat'], ['🦁', 'lion'], ['🐴', 'horse'], ['🦄', 'unicorn'], ['🐷', 'pig'], ['🐘', 'elephant'], ['🐰', 'rabbit'],
+  ['🐼', 'panda'], ['🐓', 'rooster'], ['🐧', 'penguin'], ['🐢', 'turtle'], ['🐟', 'fish'], ['🐙', 'octopus'], ['🦋', 'butterfly'], ['🌷', 'tulip'],
+  ['🌳', 'tree'], ['🌵', 'cactus'], ['🍄', 'mushroom'], ['🌏', 'globe'], ['🌙', 'moon'], ['☁️', 'cloud'], ['🔥', 'fire'], ['🍌', 'banana'],
+  ['🍎', 'apple'], ['🍓', 'strawberry'], ['🌽', 'corn'], ['🍕', 'pizza'], ['🎂', 'cake'], ['❤️', 'heart'], ['😀', 'smiley'], ['🤖', 'robot'],
+  ['🎩', 'hat'], ['👓', 'glasses'], ['🔧', 'spanner'], ['🎅', 'santa'], ['👍', 'thumbs up'], ['☂️', 'umbrella'], ['⌛', 'hourglass'], ['⏰', 'clock'],
+  ['🎁', 'gift'], ['💡', 'light bulb'], ['📕', 'book'], ['✏️', 'pencil'], ['📎', 'paperclip'], ['✂️', 'scissors'], ['🔒', 'lock'], ['🔑', 'key'],
+  ['🔨', 'hammer'], ['☎️', 'telephone'], ['🏁', 'flag'], ['🚂', 'train'], ['🚲', 'bicycle'], ['✈️', 'aeroplane'], ['🚀', 'rocket'], ['🏆', 'trophy'],
+  ['⚽', 'ball'], ['🎸', 'guitar'], ['🎺', 'trumpet'], ['🔔', 'bell'], ['⚓', 'anchor'], ['🎧', 'headphones'], ['📁', 'folder'], ['📌', 'pin'],
+]
+
+function keyDigits(publicKey: Uint8Array): string {
+  let hash = nacl.hash(publicKey)
+  for (let i = 0; i < SAFETY_ITERATIONS; i++) {
+    const input = new Uint8Array(hash.length + publicKey.length)
+    input.set(hash)
+    input.set(publicKey, hash.length)
+    hash = nacl.hash(input)
+  }
+
+  // 6 × 5 bytes → 6 × 5 digits
+  let digits = ''
+  for (let i = 0; i < 30; i += 5) {
+    let value = 0
+    for (let j = 0; j < 5; j++) value = value * 256 + hash[i + j]!
+    digits += (value % 100000).toString().padStart(5, '0')
+  }
+  return digits
+}
+
+export function computeSafetyNumber(
+  ourPublicKey: Uint8Array,
+  theirPublicKey: Uint8Array
+): { blocks: string[]; emoji: Array<readonly [string, string]> } {
+  const halves = [keyDigits(ourPublicKey), keyDigits(theirPublicKey)].sort()
+  const digits = halves.join('')
+
+  const blocks: string[] = []
+  for (let i = 0; i < digits.length; i += 5) blocks.push(digits.slice(i, i + 5))
+
+  // Emoji rendering of the same pair of keys (order-independent)
+  const [first, second] = compareKeys(ourPublicKey, theirPublicKey) < 0
+    ? [ourPublicKey, theirPublicKey]
+    : [theirPublicKey, ourPublicKey]
+  const input = new Uint8Array(first.length + second.length)
+  input.set(first)
+  input.set(second, first.length)
+  const hash = nacl.hash(input)
+  const emoji = Array.from(hash.slice(0, 8), b => SAFETY_EMOJI[b % SAFETY_EMOJI.length]!)
+
+  log.debug('[Safety] Safety number computed')
+  return { blocks, emoji }
+}
+
 // ─── Encrypt (JSON envelope) ─────────────────────────────────────
 
-export function encryptMessage(messageKey: Uint8Array, payload: MessagePayload): string {
-  console.log('[Encrypt] Encrypting message...')
-  console.log('[Encrypt] Text:', payload.text ? `${payload.text.length} chars` : 'none')
-  console.log('[Encrypt] Attachments:', payload.attachments?.length ?? 0)
+// `peerFormats` are the payload options the receiver can read — null sends
+// bare JSON, which every build reads
+export function encryptMessage(
+  messageKey: Uint8Array,
+  header: MessageHeader,
+  payload: MessagePayload,
+  options: PayloadOptions = DEFAULT_PAYLOAD_OPTIONS,
+  peerFormats: number | null = null,
+  onProgress?: CryptoProgress
+): string {
+  log.debug('[Encrypt] Encrypting message...')
+  log.debug('[Encrypt] Text:', payload.text ? `${payload.text.length} chars` : 'none')
+  log.debug('[Encrypt] Attachments:', payload.attachments?.length ?? 0)
   payload.attachments?.forEach((a, i) => {
-    console.log(`[Encrypt]   [${i}] ${a.type} (${a.mime}), data: ${a.data.length} base64 chars`)
+    log.debug(`[Encrypt]   [${i}] ${a.type} (${a.mime}), ${a.file ? `stored file: ${a.file.size} bytes in ${a.file.chunks} chunk(s)` : `data: ${a.data?.length ?? 0} base64 chars`}`)
   })
-  console.log('[Encrypt] Ratchet key:', payload.ratchetKey.slice(0, 16) + '...')
-  console.log('[Encrypt] Message key:', encodeBase64(messageKey))
+  log.debug(`[Encrypt] Header: dh=${encodeBase64(header.dh).slice(0, 16)}... pn=${header.pn} n=${header.n}`)
+  log.debug('[Encrypt] Message key:', secret(encodeBase64(messageKey)))
 
-  const json = JSON.stringify(payload)
-  const plainBytes = new TextEncoder().encode(json)
-  console.log(`[Encrypt] JSON payload: ${plainBytes.length} bytes`)
+  onProgress?.('encode', 0, 1)
+  const json = new TextEncoder().encode(JSON.stringify(payload))
+  const plainBytes = encodePayload(json, options, peerFormats)
+  log.debug(`[Encrypt] JSON payload: ${json.length} bytes → sealed as ${plainBytes.length} bytes`)
+  onProgress?.('encode', 1, 1)
 
+  const headerBytes = encodeHeader(header)
   const nonce = nacl.randomBytes(nacl.secretbox.nonceLength)
-  console.log('[Encrypt] Nonce:', encodeBase64(nonce))
+  log.debug('[Encrypt] Nonce:', encodeBase64(nonce))
 
-  const ciphertext = nacl.secretbox(plainBytes, nonce, messageKey)
+  onProgress?.('seal', 0, 1)
+  const ciphertext = nacl.secretbox(plainBytes, nonce, bindHeader(messageKey, headerBytes))
+  onProgress?.('seal', 1, 1)
 
-  const combined = new Uint8Array(nonce.length + ciphertext.length)
-  combined.set(nonce)
-  combined.set(ciphertext, nonce.length)
+  const combined = new Uint8Array(HEADER_LENGTH + nonce.length + ciphertext.length)
+  combined.set(headerBytes)
+  combined.set(nonce, HEADER_LENGTH)
+  combined.set(ciphertext, HEADER_LENGTH + nonce.length)
 
-  const encoded = encodeBase64(combined)
-  console.log(`[Encrypt] Ciphertext: ${ciphertext.length} bytes → Base64: ${encoded.length} chars`)
+  const encoded = encodeBase64Sliced(combined, onProgress && ((done, total) => onProgress('armor', done, total)))
+  log.debug(`[Encrypt] Ciphertext: ${ciphertext.length} bytes → Base64: ${encoded.length} chars`)
 
   return encoded
 }
 
 // ─── Decrypt (JSON envelope) ─────────────────────────────────────
 
-export function decryptMessage(messageKey: Uint8Array, encoded: string): MessagePayload | null {
-  console.log('[Decrypt] Decrypting message...')
-  console.log(`[Decrypt] Base64 input: ${encoded.length} chars`)
-  console.log('[Decrypt] Message key:', encodeBase64(messageKey))
+export function decryptMessage(messageKey: Uint8Array, encoded: string, onProgress?: CryptoProgress): MessagePayload | null {
+  log.debug('[Decrypt] Decrypting message...')
+  log.debug(`[Decrypt] Base64 input: ${encoded.length} chars`)
+  log.debug('[Decrypt] Message key:', secret(encodeBase64(messageKey)))
 
-  const combined = decodeBase64(encoded)
-  const nonce = combined.slice(0, nacl.secretbox.nonceLength)
-  const ciphertext = combined.slice(nacl.secretbox.nonceLength)
+  let combined: Uint8Array
+  try {
+    combined = decodeBase64Sliced(encoded, onProgress && ((done, total) => onProgress('decode', done, total)))
+  } catch {
+    log.error('[Decrypt] FAILED — not valid base64')
+    return null
+  }
+  const headerBytes = combined.slice(0, HEADER_LENGTH)
+  const nonce = combined.slice(HEADER_LENGTH, HEADER_LENGTH + nacl.secretbox.nonceLength)
+  const ciphertext = combined.slice(HEADER_LENGTH + nacl.secretbox.nonceLength)
 
-  console.log('[Decrypt] Nonce:', encodeBase64(nonce))
-  console.log(`[Decrypt] Ciphertext: ${ciphertext.length} bytes`)
+  log.debug('[Decrypt] Nonce:', encodeBase64(nonce))
+  log.debug(`[Decrypt] Ciphertext: ${ciphertext.length} bytes`)
 
-  const plainBytes = nacl.secretbox.open(ciphertext, nonce, messageKey)
+  onProgress?.('open', 0, 1)
+  const plainBytes = nacl.secretbox.open(ciphertext, nonce, bindHeader(messageKey, headerBytes))
+  onProgress?.('open', 1, 1)
   if (!plainBytes) {
-    console.error('[Decrypt] FAILED — authentication error (wrong key or tampered data)')
+    log.error('[Decrypt] FAILED — authentication error (wrong key or tampered data)')
     return null
   }
 
-  const json = new TextDecoder().decode(plainBytes)
-  const payload: MessagePayload = JSON.parse(json)
+  let payload: MessagePayload
+  try {
+    const json = new TextDecoder().decode(decodePayload(plainBytes))
+    onProgress?.('parse', 0, 1)
+    payload = JSON.parse(json)
+    onProgress?.('parse', 1, 1)
+  } catch (err: any) {
+    log.error(`[Decrypt] FAILED — ${err.message}`)
+    return null
+  }
+  if (!payload || typeof payload !== 'object') {
+    log.error('[Decrypt] FAILED — payload is not an object')
+    return null
+  }
 
-  console.log('[Decrypt] Success!')
-  console.log('[Decrypt] Text:', payload.text ? `${payload.text.length} chars` : 'none')
-  console.log('[Decrypt] Attachments:', payload.attachments?.length ?? 0)
+  log.debug('[Decrypt] Success!')
+  log.debug('[Decrypt] Text:', payload.text ? `${payload.text.length} chars` : 'none')
+  log.debug('[Decrypt] Attachments:', payload.attachments?.length ?? 0)
   payload.attachments?.forEach((a, i) => {
-    console.log(`[Decrypt]   [${i}] ${a.type} (${a.mime}), data: ${a.data.length} base64 chars`)
+    log.debug(`[Decrypt]   [${i}] ${a.type} (${a.mime}), ${a.file ? `stored file: ${a.file.size} bytes in ${a.file.chunks} chunk(s)` : `data: ${a.data?.length ?? 0} base64 chars`}`)
   })
-  console.log('[Decrypt] Ratchet key:', payload.ratchetKey.slice(0, 16) + '...')
 
   return payload
 }
 
+// Runs the steps above on the calling thread, for the CLI and tests
+export const inlineCipher: MessageCipher = {
+  seal: async (messageKey, header, payload, options, peerFormats, onProgress) =>
+    encryptMessage(messageKey, header, payload, options, peerFormats, onProgress),
+  open: async (messageKey, encoded, onProgress) => decryptMessage(messageKey, encoded, onProgress),
+}
+
 // ─── Helpers ─────────────────────────────────────────────────────
 
 export function bytesToBase64(bytes: Uint8Array): string {
@@ -216,4 +580,39 @@ export function base64ToBytes(b64: string): Uint8Array {
   return decodeBase64(b64)
 }
 
+// Multi-megabyte payloads are converted in slices so progress can be
+// reported. Slices are whole base64 quanta (3 bytes ↔ 4 chars), so each one
+// converts on its own.
+const BASE64_SLICE = 3 * 256 * 1024
+
+export function encodeBase64Sliced(bytes: Uint8Array, onProgress?: (done: number, total: number) => void): string {
+  if (!onProgress || bytes.length <= BASE64_SLICE) return encodeBase64(bytes)
+  const parts: string[] = []
+  for (let i = 0; i < bytes.length; i += BASE64_SLICE) {
+    parts.push(encodeBase64(bytes.subarray(i, i + BASE64_SLICE)))
+    onProgress(Math.min(i + BASE64_SLICE, bytes.length), bytes.length)
+  }
+  return parts.join('')
+}
+
+export function decodeBase64Sliced(encoded: string, onProgress?: (done: number, total: number) => void): Uint8Array {
+  const slice = (BASE64_SLICE / 3) * 4
+  if (!onProgress || encoded.length <= slice) return decodeBase64(encoded)
+  const parts: Uint8Array[] = []
+  let length = 0
+  for (let i = 0; i < encoded.length; i += slice) {
+    const part = decodeBase64(encoded.slice(i, i + slice))
+    parts.push(part)
+    length += part.length
+    onProgress(Math.min(i + slice, encoded.length), encoded.length)
+  }
+  const bytes = new Uint8Array(length)
+  let offset = 0
+  for (const part of parts) {
+    bytes.set(part, offset)
+    offset += part.length
+  }
+  return bytes
+}
+
 export { encodeBase64, decodeBase64 }
@@ -0,0 +1,160 @@
+import { runCryptoOp, buffersOf } from './cryptoOps'
+import { getLogLevel, addEntry, log } from './log'
+import type { CryptoProgress, MessageCipher } from './crypto'
+import type { GroupCipher } from './group'
+import type { ChunkCipher } from './files'
+import type { CryptoRequest, CryptoResults, CryptoResult, CryptoOp, CryptoCall, CryptoReply } from './types/worker'
+
+// ─── Crypto Client ───────────────────────────────────────────────
+// Runs sealing and opening of pairwise and group messages, base64 of large
+// payloads and the chunks of stored files in a worker (cryptoWorker.ts) so
+// the page keeps responding. Buffers are transferred, not copied. Requests
+// wait until the worker has loaded; if it cannot load (no Worker support, a
+// blocked script) they run inline instead.
+
+interface Call {
+  request: CryptoRequest
+  transfer: ArrayBuffer[]
+  onProgress?: CryptoProgress
+  resolve: (result: CryptoResult) => void // checks the result answers `request`
+  reject: (err: Error) => void
+}
+
+let worker: Worker | null = null
+let state: 'idle' | 'loading' | 'ready' | 'inline' = 'idle'
+let nextId = 1
+const waiting: Call[] = []
+const pending = new Map<number, Call>()
+
+function start() {
+  if (typeof Worker === 'undefined') {
+    state = 'inline'
+    return
+  }
+  state = 'loading'
+  try {
+    worker = new Worker(new URL('./cryptoWorker.ts', import.meta.url), { type: 'module' })
+  } catch (err: any) {
+    fallBack(err.message)
+    return
+  }
+  worker.onmessage = ({ data }: MessageEvent<CryptoReply>) => receive(data)
+  worker.onerror = (event) => {
+    event.preventDefault()
+    if (state === 'loading') {
+      fallBack(event.message || 'the script did not load')
+      return
+    }
+    // Transferred buffers are gone, so calls in flight cannot be retried
+    log.error('[Worker] Crypto worker failed:', event.message)
+    for (const call of pending.values()) call.reject(new Error(`Crypto worker failed: ${event.message}`))
+    pending.clear()
+    worker?.terminate()
+    worker = null
+    state = 'idle'
+  }
+}
+
+function fallBack(reason: string) {
+  log.warn(`[Worker] Crypto worker unavailable (${reason}) — running crypto on the main thread`)
+  worker?.terminate()
+  worker = null
+  state = 'inline'
+  waiting.splice(0).forEach(runInline)
+}
+
+function receive(reply: CryptoReply) {
+  if ('log' in reply) {
+    addEntry(reply.log)
+    return
+  }
+  if ('ready' in reply) {
+    state = 'ready'
+    log.debug('[Worker] Crypto worker ready')
+    waiting.splice(0).forEach(post)
+    return
+  }
+  const call = pending.get(reply.id)
+  if (!call) return
+  if ('progress' in reply) {
+    const { stage, done, total } = reply.progress
+    call.onProgress?.(stage, done, total)
+    return
+  }
+  pending.delete(reply.id)
+  if ('error' in reply) call.reject(new Error(reply.error))
+  else call.resolve(reply.result)
+}
+
+function post(call: Call) {
+  const id = nextId++
+  pending.set(id, call)
+  const message: CryptoCall = { id, level: getLogLevel(), request: call.request }
+  worker!.postMessage(message, call.transfer)
+}
+
+function runInline(call: Call) {
+  try {
+    call.resolve(runCryptoOp(call.request, call.onProgress ?? (() => {})).result)
+  } catch (err: any) {
+    call.reject(err)
+  }
+}
+
+function run<Op extends CryptoOp>(
+  request: Extract<CryptoRequest, { op: Op }>,
+  transfer: ArrayBuffer[] = [],
+  onProgress?: CryptoProgress
+): Promise<CryptoResults[Op]> {
+  if (state === 'idle') start()
+  return new Promise((resolve, reject) => {
+    const settle = (result: CryptoResult) => {
+      if (result.op !== request.op) reject(new Error(`Crypto worker answered ${request.op} with ${result.op}`))
+      // Narrowed by the check above, which TypeScript cannot relate to Op
+      else resolve(result.value as CryptoResults[Op])
+    }
+    const call: Call = { request, transfer, onProgress, resolve: settle, reject }
+    if (state === 'ready') post(call)
+    else if (state === 'loading') waiting.push(call)
+    // Inline calls still settle asynchronously, like worker calls
+    else queueMicrotask(() => runInline(call))
+  })
+}
+
+// ─── API ─────────────────────────────────────────────────────────
+
+export const workerCipher: MessageCipher = {
+  seal: (key, header, payload, options, formats, onProgress) =>
+    run({ op: 'seal', key, header, payload, options, formats }, [], onProgress),
+  open: (key, encoded, onProgress) => run({ op: 'open', key, encoded }, [], onProgress),
+}
+
+export const workerGroupCipher: GroupCipher = {
+  seal: (key, header, payload, options, formats, signingSecret, onProgress) =>
+    run({ op: 'sealGroup', key, header, payload, options, formats, signingSecret }, [], onProgress),
+  open: (key, encoded, signingKey, onProgress) => run({ op: 'openGroup', key, encoded, signingKey }, [], onProgress),
+}
+
+// Base64 of an attachment. `bytes` is transferred and unusable afterwards.
+export function encodeBytes(bytes: Uint8Array, onProgress?: CryptoProgress): Promise<string> {
+  return run({ op: 'encode', bytes }, buffersOf([bytes]), onProgress)
+}
+
+export function decodeBytes(encoded: string): Promise<Uint8Array> {
+  return run({ op: 'decode', encoded })
+}
+
+let nextStream = 1
+
+// Chunks of stored files. Each chunk's buffer is transferred; an opened
+// chunk's box comes back with its plaintext.
+export const workerChunkCipher: ChunkCipher = (key, prefix) => {
+  const stream = nextStream++
+  return {
+    seal: (seq, last, plain, padTo) =>
+      run({ op: 'sealChunk', stream, key, prefix, seq, last, plain, padTo }, buffersOf([plain])),
+    open: (seq, last, box, keep) =>
+      run({ op: 'openChunk', stream, key, prefix, seq, last, box, keep }, buffersOf([box])),
+    digest: () => run({ op: 'digest', stream }),
+  }
+}
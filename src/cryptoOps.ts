@@ -0,0 +1,83 @@
+import { sha256 } from '@noble/hashes/sha2.js'
+import { encryptMessage, decryptMessage, encodeBase64Sliced, decodeBase64Sliced, type CryptoProgress } from './crypto'
+import { sealSigned, openSigned } from './group'
+import { sealFileChunk, openFileChunk, type FileHash } from './files'
+import type { CryptoRequest, CryptoResult } from './types/worker'
+
+// ─── Crypto Operations ───────────────────────────────────────────
+// What the crypto worker runs. Pure functions of their request, so the
+// client can run the same thing inline when no worker is available — except
+// for a stored file's running hash, which lasts from its first chunk to its
+// digest.
+
+export interface CryptoOutcome {
+  result: CryptoResult
+  transfer: ArrayBuffer[] // buffers handed back without a copy
+}
+
+export function runCryptoOp(request: CryptoRequest, onProgress: CryptoProgress): CryptoOutcome {
+  switch (request.op) {
+    case 'seal':
+      return {
+        result: { op: 'seal', value: encryptMessage(request.key, request.header, request.payload, request.options, request.formats, onProgress) },
+        transfer: [],
+      }
+    case 'open':
+      return { result: { op: 'open', value: decryptMessage(request.key, request.encoded, onProgress) }, transfer: [] }
+    case 'sealGroup':
+      return {
+        result: {
+          op: 'sealGroup',
+          value: sealSigned(request.key, request.header, request.payload, request.options, request.formats, request.signingSecret, onProgress),
+        },
+        transfer: [],
+      }
+    case 'openGroup':
+      return { result: { op: 'openGroup', value: openSigned(request.key, request.encoded, request.signingKey, onProgress) }, transfer: [] }
+    case 'encode':
+      return {
+        result: { op: 'encode', value: encodeBase64Sliced(request.bytes, (done, total) => onProgress('encode', done, total)) },
+        transfer: [],
+      }
+    case 'decode': {
+      const bytes = decodeBase64Sliced(request.encoded, (done, total) => onProgress('decode', done, total))
+      return { result: { op: 'decode', value: bytes }, transfer: buffersOf([bytes]) }
+    }
+    case 'sealChunk': {
+      const { stream, key, prefix, seq, last, plain, padTo } = request
+      const box = sealFileChunk(fileHash(stream, seq), key, prefix, seq, last, plain, padTo)
+      return { result: { op: 'sealChunk', value: box }, transfer: buffersOf([box]) }
+    }
+    case 'openChunk': {
+      const { stream, key, prefix, seq, last, box, keep } = request
+      const plain = openFileChunk(fileHash(stream, seq), key, prefix, seq, last, box, keep)
+      // A file that fails authentication is not read any further
+      if (!plain) fileHashes.delete(stream)
+      return { result: { op: 'openChunk', value: { plain, box } }, transfer: buffersOf(plain ? [plain, box] : [box]) }
+    }
+    case 'digest': {
+      const digest = fileHash(request.stream, -1).digest()
+      fileHashes.delete(request.stream)
+      return { result: { op: 'digest', value: digest }, transfer: [] }
+    }
+  }
+}
+
+// ─── File Hashes ─────────────────────────────────────────────────
+
+const fileHashes = new Map<number, FileHash>()
+
+// Started by the first chunk. A stream this side does not know — its worker
+// was restarted part way through the file — fails instead of hashing only
+// the rest of the file.
+function fileHash(stream: number, seq: number): FileHash {
+  if (seq === 0) fileHashes.set(stream, sha256.create())
+  const hash = fileHashes.get(stream)
+  if (!hash) throw new Error('File hash lost part way through the file')
+  return hash
+}
+
+// A buffer may only be listed once, and views may share one
+export function buffersOf(views: Uint8Array[]): ArrayBuffer[] {
+  return [...new Set(views.map(v => v.buffer as ArrayBuffer))]
+}
@@ -0,0 +1,26 @@
+import { runCryptoOp } from './cryptoOps'
+import { setLogLevel, onLog } from './log'
+import type { CryptoCall, CryptoReply } from './types/worker'
+
+// ─── Crypto Worker ───────────────────────────────────────────────
+// Entry point of the worker started by cryptoClient.ts. Requests run one at
+// a time in the order they were posted. Log lines go to the page's log too.
+
+function reply(message: CryptoReply, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer })
+}
+
+onLog(entry => reply({ id: 0, log: entry }))
+
+self.onmessage = ({ data }: MessageEvent<CryptoCall>) => {
+  const { id, level, request } = data
+  setLogLevel(level)
+  try {
+    const { result, transfer } = runCryptoOp(request, (stage, done, total) => reply({ id, progress: { stage, done, total } }))
+    reply({ id, result }, transfer)
+  } catch (err: any) {
+    reply({ id, error: err?.message ?? String(err) })
+  }
+}
+
+reply({ id: 0, ready: true })
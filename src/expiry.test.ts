@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest'
+import { receivedTimer, formatTimer, TIMER_OPTIONS, MIN_TIMER, MAX_TIMER } from './expiry'
+
+describe('disappearing-message timer', () => {
+  it('turns off for payloads without a timer', () => {
+    expect(receivedTimer(undefined)).toBe(0)
+    expect(receivedTimer(0)).toBe(0)
+    expect(receivedTimer('30')).toBe(0)
+    expect(receivedTimer(Number.NaN)).toBe(0)
+  })
+
+  it('keeps a peer\'s timer within the offered range', () => {
+    expect(receivedTimer(300)).toBe(300)
+    expect(receivedTimer(1)).toBe(MIN_TIMER)
+    expect(receivedTimer(10 ** 9)).toBe(MAX_TIMER)
+  })
+
+  it('formats every offered timer', () => {
+    expect(TIMER_OPTIONS.slice(1).map(t => formatTimer(t.value))).toEqual(['30s', '5m', '1h', '8h', '1d', '1w'])
+  })
+})
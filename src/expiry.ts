@@ -0,0 +1,44 @@
+// ─── Disappearing Messages ───────────────────────────────────────
+// Every chat message carries its chat's timer (`MessagePayload.ttl`, seconds),
+// and a received message sets the receiving side's timer to it — so a change
+// reaches the peer with the next message, and a message without the field
+// (older builds, or a timer switched off) turns it off.
+//
+// A received message disappears `ttl` after it is read. A sent one gets the
+// same time to be delivered; once the peer has it, it waits for their read
+// receipt and then disappears `ttl` later. A message still undelivered at its
+// deadline is withdrawn: its rows are deleted from the transport and it never
+// reaches the peer.
+
+export const TIMER_OPTIONS = [
+  { value: 0, label: 'Off' },
+  { value: 30, label: '30 seconds' },
+  { value: 5 * 60, label: '5 minutes' },
+  { value: 60 * 60, label: '1 hour' },
+  { value: 8 * 60 * 60, label: '8 hours' },
+  { value: 24 * 60 * 60, label: '1 day' },
+  { value: 7 * 24 * 60 * 60, label: '1 week' },
+]
+
+export const MIN_TIMER = 30
+export const MAX_TIMER = 7 * 24 * 60 * 60
+
+// A timer from a received payload: missing means off, anything else is kept
+// within the range we offer
+export function receivedTimer(ttl: unknown): number {
+  if (typeof ttl !== 'number' || !Number.isFinite(ttl) || ttl <= 0) return 0
+  return Math.min(Math.max(Math.round(ttl), MIN_TIMER), MAX_TIMER)
+}
+
+export function expiresAt(ttl: number, from = Date.now()): number {
+  return from + ttl * 1000
+}
+
+// Short form for bubbles and the header: 30s, 5m, 8h, 1d, 1w
+export function formatTimer(seconds: number): string {
+  if (seconds >= 7 * 86_400 && seconds % (7 * 86_400) === 0) return `${seconds / (7 * 86_400)}w`
+  if (seconds >= 86_400) return `${Math.round(seconds / 86_400)}d`
+  if (seconds >= 3_600) return `${Math.round(seconds / 3_600)}h`
+  if (seconds >= 60) return `${Math.round(seconds / 60)}m`
+  return `${Math.max(Math.round(seconds), 0)}s`
+}
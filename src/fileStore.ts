@@ -0,0 +1,108 @@
+import type { FileStore } from './files'
+
+// ─── Types ───────────────────────────────────────────────────────
+
+// IndexedDB record — chunks are already sealed under their file key, which
+// only exists inside the (sealed) message history
+interface ChunkRecord {
+  path: string // `${FileRef.path}/${seq}`
+  conv: string // conversation ID, for clearing a whole chat
+  data: Uint8Array
+}
+
+const DB_NAME = 'xchat-files'
+const DB_VERSION = 1
+const STORE = 'chunks'
+const BY_CONV = 'by-conv'
+
+// ─── Database ────────────────────────────────────────────────────
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION)
+      req.onupgradeneeded = () => {
+        const store = req.result.createObjectStore(STORE, { keyPath: 'path' })
+        store.createIndex(BY_CONV, 'conv')
+      }
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => {
+        dbPromise = null
+        reject(req.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+// ─── Local Store ─────────────────────────────────────────────────
+// Serves as the file store of the Same Browser transport (both tabs share the
+// database) and as the local copy of every file kept in history, so stored
+// messages still open after the remote objects have been deleted.
+
+export function localFileStore(conv: string): FileStore {
+  return {
+    kind: 'local',
+
+    async put(path, data) {
+      const db = await openDb()
+      const tx = db.transaction(STORE, 'readwrite')
+      tx.objectStore(STORE).put({ path, conv, data } satisfies ChunkRecord)
+      await done(tx)
+    },
+
+    async get(path) {
+      const db = await openDb()
+      const tx = db.transaction(STORE, 'readonly')
+      const req = tx.objectStore(STORE).get(path)
+      await done(tx)
+      const record = req.result as ChunkRecord | undefined
+      if (!record) throw new Error(`Chunk ${path} is not stored locally`)
+      return record.data
+    },
+
+    async remove(paths) {
+      const db = await openDb()
+      const tx = db.transaction(STORE, 'readwrite')
+      const store = tx.objectStore(STORE)
+      for (const path of paths) store.delete(path)
+      await done(tx)
+    },
+  }
+}
+
+export async function clearConversationFiles(conv: string): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(STORE, 'readwrite')
+  const req = tx.objectStore(STORE).index(BY_CONV).openKeyCursor(IDBKeyRange.only(conv))
+  req.onsuccess = () => {
+    const cursor = req.result
+    if (!cursor) return
+    tx.objectStore(STORE).delete(cursor.primaryKey)
+    cursor.continue()
+  }
+  await done(tx)
+}
+
+// Deletes the whole database (reset)
+export async function clearFiles(): Promise<void> {
+  const db = dbPromise ? await dbPromise.catch(() => null) : null
+  db?.close()
+  dbPromise = null
+  await new Promise<void>((resolve, reject) => {
+    const req = indexedDB.deleteDatabase(DB_NAME)
+    req.onsuccess = () => resolve()
+    req.onerror = () => reject(req.error)
+    req.onblocked = () => resolve()
+  })
+}
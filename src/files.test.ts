@@ -0,0 +1,156 @@
+import { describe, it, expect, vi } from 'vitest'
+import { encryptFile, decryptFile, chunkPath, chunkPaths, FILE_CHUNK_SIZE, MAX_FILE_SIZE, type FileStore, type ChunkCipher } from './files'
+import { runCryptoOp } from './cryptoOps'
+import type { CryptoRequest, CryptoResults } from './types/worker'
+import { padme } from './padding'
+
+vi.spyOn(console, 'log').mockImplementation(() => {})
+
+function memoryStore(): FileStore & { objects: Map<string, Uint8Array> } {
+  const objects = new Map<string, Uint8Array>()
+  return {
+    kind: 'local',
+    objects,
+    async put(path, data) { objects.set(path, data) },
+    async get(path) {
+      const data = objects.get(path)
+      if (!data) throw new Error(`missing ${path}`)
+      return data
+    },
+    async remove(paths) { paths.forEach(p => objects.delete(p)) },
+  }
+}
+
+// 2.5 chunks of non-repeating bytes
+const content = Uint8Array.from({ length: FILE_CHUNK_SIZE * 2.5 }, (_, i) => (i * 7 + (i >> 11)) & 0xff)
+
+// The crypto worker's ops, called directly (see cryptoClient.ts)
+let nextStream = 1
+const opsCipher: ChunkCipher = (key, prefix) => {
+  const stream = nextStream++
+  const op = (request: CryptoRequest) => runCryptoOp(request, () => {}).result.value
+  return {
+    seal: async (seq, last, plain, padTo) =>
+      op({ op: 'sealChunk', stream, key, prefix, seq, last, plain, padTo }) as CryptoResults['sealChunk'],
+    open: async (seq, last, box, keep) =>
+      op({ op: 'openChunk', stream, key, prefix, seq, last, box, keep }) as CryptoResults['openChunk'],
+    digest: async () => op({ op: 'digest', stream }) as CryptoResults['digest'],
+  }
+}
+
+// Deep equality on megabyte arrays is slow in expect()
+async function sameContent(blob: Blob): Promise<boolean> {
+  return Buffer.from(await blob.arrayBuffer()).equals(content)
+}
+
+describe('stored files', () => {
+  it('round-trips a file in independently sealed chunks', async () => {
+    const store = memoryStore()
+    const progress: number[] = []
+    const ref = await encryptFile(new Blob([content]), store, done => progress.push(done))
+
+    expect(ref.chunks).toBe(3)
+    expect(ref.size).toBe(content.length)
+    expect(progress).toEqual([1, 2, 3])
+    expect(store.objects.size).toBe(3)
+
+    const blob = await decryptFile(ref, store, 'application/octet-stream')
+    expect(blob.type).toBe('application/octet-stream')
+    expect(await sameContent(blob)).toBe(true)
+  })
+
+  it('writes the same ciphertext to the mirror', async () => {
+    const store = memoryStore()
+    const mirror = memoryStore()
+    const ref = await encryptFile(new Blob([content]), store, undefined, mirror)
+    expect([...mirror.objects.keys()]).toEqual([...store.objects.keys()])
+    expect(await sameContent(await decryptFile(ref, mirror, ''))).toBe(true)
+  })
+
+  it('handles an empty file', async () => {
+    const store = memoryStore()
+    const ref = await encryptFile(new Blob([]), store)
+    expect(ref.chunks).toBe(1)
+    expect((await decryptFile(ref, store, '')).size).toBe(0)
+  })
+
+  it('rejects a tampered chunk', async () => {
+    const store = memoryStore()
+    const ref = await encryptFile(new Blob([content]), store)
+    store.objects.get(chunkPath(ref, 1))![100]! ^= 1
+    await expect(decryptFile(ref, store, '')).rejects.toThrow('Chunk 2/3 failed authentication')
+  })
+
+  it('rejects swapped chunks', async () => {
+    const store = memoryStore()
+    const ref = await encryptFile(new Blob([content]), store)
+    const first = store.objects.get(chunkPath(ref, 0))!
+    store.objects.set(chunkPath(ref, 0), store.objects.get(chunkPath(ref, 1))!)
+    store.objects.set(chunkPath(ref, 1), first)
+    await expect(decryptFile(ref, store, '')).rejects.toThrow('failed authentication')
+  })
+
+  it('rejects a file cut short', async () => {
+    const store = memoryStore()
+    const ref = await encryptFile(new Blob([content]), store)
+    // Without the last-chunk flag, the second chunk does not open as the last one
+    await expect(decryptFile({ ...ref, chunks: 2, size: FILE_CHUNK_SIZE * 2 }, store, '')).rejects.toThrow('Chunk 2/2 failed authentication')
+  })
+
+  it('checks the size against the chunks it got', async () => {
+    const store = memoryStore()
+    const ref = await encryptFile(new Blob([content]), store)
+    await expect(decryptFile({ ...ref, size: ref.size + 1 }, store, '')).rejects.toThrow('File size mismatch')
+  })
+
+  it('refuses a size or chunk count out of range before fetching anything', async () => {
+    const store = memoryStore()
+    const ref = await encryptFile(new Blob([content]), store)
+    const get = vi.spyOn(store, 'get')
+    await expect(decryptFile({ ...ref, size: MAX_FILE_SIZE + 1, chunks: 101 }, store, '')).rejects.toThrow('out of range')
+    await expect(decryptFile({ ...ref, size: -1 }, store, '')).rejects.toThrow('out of range')
+    await expect(decryptFile({ ...ref, chunks: 1_000_000 }, store, '')).rejects.toThrow('cannot have 1000000 chunk(s)')
+    await expect(decryptFile({ ...ref, chunks: 0 }, store, '')).rejects.toThrow('cannot have 0 chunk(s)')
+    expect(get).not.toHaveBeenCalled()
+  })
+
+  it('seals and opens the same files with the worker\'s ops as inline', async () => {
+    const store = memoryStore()
+    const ref = await encryptFile(new Blob([content]), store, undefined, null, true, opsCipher)
+    expect(await sameContent(await decryptFile(ref, store, ''))).toBe(true)
+    expect(await sameContent(await decryptFile(await encryptFile(new Blob([content]), store), store, '', undefined, null, opsCipher))).toBe(true)
+  })
+
+  it('checks the digest over the whole file', async () => {
+    const store = memoryStore()
+    const ref = await encryptFile(new Blob([content]), store)
+    await expect(decryptFile({ ...ref, digest: ref.digest.replace(/^./, c => c === 'A' ? 'B' : 'A') }, store, ''))
+      .rejects.toThrow('File digest mismatch')
+  })
+
+  it('pads the last chunk of a padded file and still verifies', async () => {
+    const store = memoryStore()
+    const file = content.subarray(0, FILE_CHUNK_SIZE * 2 + 300_001)
+    const ref = await encryptFile(new Blob([file]), store, undefined, null, true)
+    expect(ref.filler).toBeUndefined()
+    expect(store.objects.get(chunkPath(ref, 2))!.length).toBe(padme(300_001) + 16)
+    expect(padme(300_001)).toBeGreaterThan(300_001)
+
+    const blob = await decryptFile(ref, store, '')
+    expect(Buffer.from(await blob.arrayBuffer()).equals(file)).toBe(true)
+  })
+
+  it('rounds the chunk count up with filler that looks like full chunks', async () => {
+    const store = memoryStore()
+    const big = new Uint8Array(FILE_CHUNK_SIZE * 8.5)
+    big[big.length - 1] = 1
+    const ref = await encryptFile(new Blob([big]), store, undefined, null, true)
+    expect(ref.chunks).toBe(9)
+    expect(ref.filler).toBe(1)
+    expect(new Set([...store.objects.values()].map(o => o.length))).toEqual(new Set([FILE_CHUNK_SIZE + 16]))
+
+    const blob = await decryptFile(ref, store, '')
+    expect(Buffer.from(await blob.arrayBuffer()).equals(big)).toBe(true)
+    expect(chunkPaths(ref)).toHaveLength(10)
+  })
+})
@@ -0,0 +1,214 @@
+import nacl from 'tweetnacl'
+import { encodeBase64, decodeBase64 } from 'tweetnacl-util'
+import { sha256 } from '@noble/hashes/sha2.js'
+import { padme } from './padding'
+import { log } from './log'
+
+// ─── Types ───────────────────────────────────────────────────────
+
+// Travels inside the encrypted MessagePayload instead of the file bytes
+export interface FileRef {
+  path: string   // object prefix in the file store; chunk i is `${path}/${i}`
+  key: string    // base64 per-file secretbox key
+  nonce: string  // base64 16-byte nonce prefix
+  size: number   // plaintext bytes
+  chunks: number
+  digest: string // base64 SHA-256 of the plaintext
+  filler?: number // random objects stored after the last chunk (padding)
+}
+
+// Where encrypted chunks are kept: a Supabase Storage bucket, or IndexedDB
+// as a stand-in for tabs of the same browser (see fileStore.ts)
+export interface FileStore {
+  kind: 'supabase' | 'local'
+  put: (path: string, data: Uint8Array) => Promise<void>
+  get: (path: string) => Promise<Uint8Array>
+  remove: (paths: string[]) => Promise<void>
+}
+
+export type FileProgress = (done: number, total: number) => void
+
+// Seals or opens one file's chunks in order, keeping a SHA-256 of the
+// plaintext as it goes. The web app runs it in its crypto worker, which takes
+// each chunk's buffer (see cryptoClient.ts); inlineChunkCipher runs here.
+export interface FileCipher {
+  seal: (seq: number, last: boolean, plain: Uint8Array, padTo: number) => Promise<Uint8Array>
+  open: (seq: number, last: boolean, box: Uint8Array, keep: number) => Promise<OpenedChunk>
+  digest: () => Promise<Uint8Array> // of everything sealed or opened; ends the file
+}
+
+export type ChunkCipher = (key: Uint8Array, prefix: Uint8Array) => FileCipher
+
+// `box` is handed back, as a worker takes it
+export interface OpenedChunk {
+  plain: Uint8Array | null
+  box: Uint8Array
+}
+
+export type FileHash = ReturnType<typeof sha256.create>
+
+export const FILE_CHUNK_SIZE = 1024 * 1024 // plaintext bytes per chunk
+export const INLINE_LIMIT = 256 * 1024     // smaller files travel inside the message
+export const MAX_FILE_SIZE = 100 * 1024 * 1024 // 100 MB, sent or accepted
+
+const NONCE_PREFIX_LENGTH = 16
+
+// ─── Chunk Encryption ────────────────────────────────────────────
+// Every chunk is its own secretbox under the file key. The nonce is the
+// file's random prefix, the chunk index and a last-chunk flag, so chunks
+// cannot be reordered, swapped between files, or dropped from the end.
+
+function chunkNonce(prefix: Uint8Array, seq: number, last: boolean): Uint8Array {
+  const nonce = new Uint8Array(nacl.secretbox.nonceLength)
+  nonce.set(prefix)
+  new DataView(nonce.buffer).setUint32(NONCE_PREFIX_LENGTH, seq)
+  nonce[nonce.length - 1] = last ? 1 : 0
+  return nonce
+}
+
+export function sealChunk(key: Uint8Array, prefix: Uint8Array, seq: number, last: boolean, plain: Uint8Array): Uint8Array {
+  return nacl.secretbox(plain, chunkNonce(prefix, seq, last), key)
+}
+
+export function openChunk(key: Uint8Array, prefix: Uint8Array, seq: number, last: boolean, box: Uint8Array): Uint8Array | null {
+  return nacl.secretbox.open(box, chunkNonce(prefix, seq, last), key)
+}
+
+// The plaintext is hashed before it is padded to `padTo` bytes
+export function sealFileChunk(hash: FileHash, key: Uint8Array, prefix: Uint8Array, seq: number, last: boolean, plain: Uint8Array, padTo: number): Uint8Array {
+  hash.update(plain)
+  return sealChunk(key, prefix, seq, last, padChunk(plain, padTo))
+}
+
+// The plaintext is cut to its first `keep` bytes (dropping padding) before it
+// is hashed
+export function openFileChunk(hash: FileHash, key: Uint8Array, prefix: Uint8Array, seq: number, last: boolean, box: Uint8Array, keep: number): Uint8Array | null {
+  let plain = openChunk(key, prefix, seq, last, box)
+  if (!plain) return null
+  if (plain.length > keep) plain = plain.subarray(0, keep)
+  hash.update(plain)
+  return plain
+}
+
+export const inlineChunkCipher: ChunkCipher = (key, prefix) => {
+  const hash = sha256.create()
+  return {
+    seal: async (seq, last, plain, padTo) => sealFileChunk(hash, key, prefix, seq, last, plain, padTo),
+    open: async (seq, last, box, keep) => ({ plain: openFileChunk(hash, key, prefix, seq, last, box, keep), box }),
+    digest: async () => hash.digest(),
+  }
+}
+
+export function chunkPath(ref: Pick<FileRef, 'path'>, seq: number): string {
+  return `${ref.path}/${seq}`
+}
+
+function newObjectPath(): string {
+  return encodeBase64(nacl.randomBytes(18)).replace(/\+/g, '-').replace(/\//g, '_')
+}
+
+// ─── Upload ──────────────────────────────────────────────────────
+// Reads the file one chunk at a time, so only a chunk is held in memory.
+// `mirror` (the local cache) receives the same ciphertext as the store.
+//
+// With `pad`, the store sees a Padmé bucket instead of the exact size: the
+// chunk count is rounded up with random filler objects, and the last chunk
+// is zero-padded — to a full chunk when filler follows it, so it does not
+// stand out. Only peers that read padded payloads can open such files.
+
+export async function encryptFile(
+  file: Blob,
+  store: FileStore,
+  onProgress?: FileProgress,
+  mirror?: FileStore | null,
+  pad = false,
+  chunkCipher: ChunkCipher = inlineChunkCipher
+): Promise<FileRef> {
+  const key = nacl.randomBytes(nacl.secretbox.keyLength)
+  const prefix = nacl.randomBytes(NONCE_PREFIX_LENGTH)
+  const chunks = Math.max(1, Math.ceil(file.size / FILE_CHUNK_SIZE))
+  const filler = pad ? padme(chunks) - chunks : 0
+  const ref: FileRef = {
+    path: newObjectPath(),
+    key: encodeBase64(key),
+    nonce: encodeBase64(prefix),
+    size: file.size,
+    chunks,
+    digest: '',
+    ...(filler > 0 && { filler }),
+  }
+  log.info(`[File] Encrypting ${file.size} bytes in ${chunks} chunk(s)${filler ? ` + ${filler} filler` : ''} → ${store.kind}:${ref.path}`)
+
+  const cipher = chunkCipher(key, prefix)
+  const total = chunks + filler
+  for (let seq = 0; seq < total; seq++) {
+    let box: Uint8Array
+    if (seq < chunks) {
+      const start = seq * FILE_CHUNK_SIZE
+      const plain = new Uint8Array(await file.slice(start, start + FILE_CHUNK_SIZE).arrayBuffer())
+      const last = seq === chunks - 1
+      const padTo = pad && last ? (filler > 0 ? FILE_CHUNK_SIZE : padme(plain.length)) : 0
+      box = await cipher.seal(seq, last, plain, padTo)
+    } else {
+      box = nacl.randomBytes(FILE_CHUNK_SIZE + nacl.secretbox.overheadLength)
+    }
+    await store.put(chunkPath(ref, seq), box)
+    if (mirror && seq < chunks) await mirror.put(chunkPath(ref, seq), box)
+    onProgress?.(seq + 1, total)
+  }
+
+  ref.digest = encodeBase64(await cipher.digest())
+  log.info(`[File] Uploaded ${ref.path} (SHA-256 ${ref.digest.slice(0, 12)}…)`)
+  return ref
+}
+
+// ─── Download ────────────────────────────────────────────────────
+// Each chunk is authenticated as it arrives; the digest over the whole
+// plaintext is checked before the Blob is handed out. The size and chunk
+// count come from the peer, so they are checked before anything is fetched.
+
+export async function decryptFile(
+  ref: FileRef,
+  store: FileStore,
+  mime: string,
+  onProgress?: FileProgress,
+  mirror?: FileStore | null,
+  chunkCipher: ChunkCipher = inlineChunkCipher
+): Promise<Blob> {
+  if (!Number.isSafeInteger(ref.size) || ref.size < 0 || ref.size > MAX_FILE_SIZE) {
+    throw new Error(`File size ${ref.size} is out of range`)
+  }
+  if (ref.chunks !== Math.max(1, Math.ceil(ref.size / FILE_CHUNK_SIZE))) {
+    throw new Error(`A file of ${ref.size} bytes cannot have ${ref.chunks} chunk(s)`)
+  }
+  const cipher = chunkCipher(decodeBase64(ref.key), decodeBase64(ref.nonce))
+  const parts: Uint8Array[] = []
+  let size = 0
+
+  for (let seq = 0; seq < ref.chunks; seq++) {
+    const opened = await cipher.open(seq, seq === ref.chunks - 1, await store.get(chunkPath(ref, seq)), ref.size - size)
+    if (!opened.plain) throw new Error(`Chunk ${seq + 1}/${ref.chunks} failed authentication`)
+    if (mirror) await mirror.put(chunkPath(ref, seq), opened.box)
+    parts.push(opened.plain)
+    size += opened.plain.length
+    onProgress?.(seq + 1, ref.chunks)
+  }
+
+  const digest = await cipher.digest()
+  if (size !== ref.size) throw new Error(`File size mismatch: ${size} of ${ref.size} bytes`)
+  if (encodeBase64(digest) !== ref.digest) throw new Error('File digest mismatch')
+  log.info(`[File] Verified ${ref.path} (${size} bytes)`)
+  return new Blob(parts as Uint8Array<ArrayBuffer>[], { type: mime })
+}
+
+// Every object of the file, filler included — for deleting it from the store
+export function chunkPaths(ref: FileRef): string[] {
+  return Array.from({ length: ref.chunks + (ref.filler ?? 0) }, (_, seq) => chunkPath(ref, seq))
+}
+
+function padChunk(plain: Uint8Array, length: number): Uint8Array {
+  if (plain.length >= length) return plain
+  const padded = new Uint8Array(length)
+  padded.set(plain)
+  return padded
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from 'vitest'
+import { decodeBase64, encodeBase64 } from './crypto'
+import { GroupSession, SenderKey, inlineGroupCipher, type GroupCipher } from './group'
+
+// crypto.ts logs every stage
+vi.spyOn(console, 'log').mockImplementation(() => {})
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+// Members of one group, each holding the others' sender keys
+function room(...names: string[]): Record<string, GroupSession> {
+  const sessions = Object.fromEntries(names.map(n => [n, GroupSession.create()]))
+  for (const from of names) {
+    for (const to of names) {
+      if (from === to) continue
+      sessions[to]!.addKey(from, sessions[from]!.distribution())
+      sessions[from]!.markSent(to)
+    }
+  }
+  return sessions
+}
+
+describe('GroupSession', () => {
+  it('lets every member read a message encrypted once', () => {
+    const { alice, bob, carol } = room('alice', 'bob', 'carol')
+    const message = alice!.encrypt({ id: 'm1', text: 'hello group' })
+    expect(bob!.decrypt('alice', message)).toEqual({ id: 'm1', text: 'hello group' })
+    expect(carol!.decrypt('alice', message)).toEqual({ id: 'm1', text: 'hello group' })
+  })
+
+  it('decrypts late and reordered messages', () => {
+    const { alice, bob } = room('alice', 'bob')
+    const m1 = alice!.encrypt({ text: '1' })
+    const m2 = alice!.encrypt({ text: '2' })
+    const m3 = alice!.encrypt({ text: '3' })
+    expect(bob!.decrypt('alice', m3)).toEqual({ text: '3' })
+    expect(bob!.decrypt('alice', m1)).toEqual({ text: '1' })
+    expect(bob!.decrypt('alice', m2)).toEqual({ text: '2' })
+  })
+
+  it('rejects replays', () => {
+    const { alice, bob } = room('alice', 'bob')
+    const m1 = alice!.encrypt({ text: 'once' })
+    expect(bob!.decrypt('alice', m1)).toEqual({ text: 'once' })
+    expect(bob!.decrypt('alice', m1)).toBeNull()
+  })
+
+  it('rejects a message signed by another member', () => {
+    const { alice, bob, carol } = room('alice', 'bob', 'carol')
+    // Carol holds Alice's chain and could encrypt with it, but not sign as Alice
+    const stolen = SenderKey.restore({ ...SenderKey.create().serialize(), ck: alice!.distribution().ck, spk: alice!.distribution().spk })
+    expect(bob!.decrypt('alice', stolen.encrypt({ text: 'forged' }))).toBeNull()
+    expect(bob!.decrypt('alice', carol!.encrypt({ text: 'not alice' }))).toBeNull()
+  })
+
+  it('rejects a tampered message without changing state', () => {
+    const { alice, bob } = room('alice', 'bob')
+    const m1 = alice!.encrypt({ text: 'secret' })
+    const bytes = decodeBase64(m1)
+    bytes[bytes.length - 1]! ^= 1
+    const before = bob!.serialize()
+    expect(bob!.decrypt('alice', encodeBase64(bytes))).toBeNull()
+    expect(bob!.serialize()).toEqual(before)
+    expect(bob!.decrypt('alice', m1)).toEqual({ text: 'secret' })
+  })
+
+  it('does not let a later member read earlier messages', () => {
+    const { alice, bob } = room('alice', 'bob')
+    const early = alice!.encrypt({ text: 'before dave' })
+    bob!.decrypt('alice', early)
+
+    const dave = GroupSession.create()
+    dave.addKey('alice', alice!.distribution())
+    expect(dave.decrypt('alice', early)).toBeNull()
+    expect(dave.decrypt('alice', alice!.encrypt({ text: 'welcome' }))).toEqual({ text: 'welcome' })
+  })
+
+  it('shuts out a removed member after rotation', () => {
+    const { alice, bob, carol } = room('alice', 'bob', 'carol')
+    alice!.rotate()
+    expect(alice!.needsKey(['bob', 'carol'])).toEqual(['bob', 'carol'])
+    // Carol was removed — only Bob gets the new chain
+    bob!.addKey('alice', alice!.distribution())
+    alice!.markSent('bob')
+
+    const after = alice!.encrypt({ text: 'without carol' })
+    expect(bob!.decrypt('alice', after)).toEqual({ text: 'without carol' })
+    expect(carol!.decrypt('alice', after)).toBeNull()
+  })
+
+  it('ignores a repeated distribution of the same chain', () => {
+    const { alice, bob } = room('alice', 'bob')
+    const dist = alice!.distribution()
+    const m1 = alice!.encrypt({ text: 'once' })
+    expect(bob!.decrypt('alice', m1)).toEqual({ text: 'once' })
+    expect(bob!.addKey('alice', dist)).toBe(false)
+    expect(bob!.decrypt('alice', m1)).toBeNull()
+  })
+
+  it('survives serialize and restore', () => {
+    let { alice, bob } = room('alice', 'bob')
+    const late = alice!.encrypt({ text: 'late' })
+    bob!.decrypt('alice', alice!.encrypt({ text: 'first' }))
+
+    alice = GroupSession.restore(JSON.parse(JSON.stringify(alice!.serialize())))
+    bob = GroupSession.restore(JSON.parse(JSON.stringify(bob!.serialize())))
+
+    expect(bob.decrypt('alice', alice.encrypt({ text: 'after restore' }))).toEqual({ text: 'after restore' })
+    expect(bob.decrypt('alice', late)).toEqual({ text: 'late' })
+    expect(alice.decrypt('bob', bob.encrypt({ text: 'and back' }))).toEqual({ text: 'and back' })
+  })
+
+  it('opens concurrent receives through a cipher one after another', async () => {
+    const { alice, bob } = room('alice', 'bob')
+    let release!: () => void
+    const held = new Promise<void>(r => { release = r })
+    const cipher: GroupCipher = {
+      ...inlineGroupCipher,
+      async open(...args) {
+        await held
+        return inlineGroupCipher.open(...args)
+      },
+    }
+    const first = bob!.decryptWith(cipher, 'alice', await alice!.encryptWith(inlineGroupCipher, { text: '1' }))
+    const second = bob!.decryptWith(cipher, 'alice', await alice!.encryptWith(inlineGroupCipher, { text: '2' }))
+    release()
+    expect(await Promise.all([first, second])).toEqual([{ text: '1' }, { text: '2' }])
+    expect(bob!.decrypt('alice', alice!.encrypt({ text: '3' }))).toEqual({ text: '3' })
+  })
+
+  it('rolls back when the cipher fails', async () => {
+    const { alice, bob } = room('alice', 'bob')
+    const failing: GroupCipher = { ...inlineGroupCipher, seal: () => Promise.reject(new Error('worker gone')) }
+    await expect(alice!.encryptWith(failing, { text: 'lost' })).rejects.toThrow('worker gone')
+    // The retry reuses the index, so Bob skips nothing
+    expect(await bob!.decryptWith(inlineGroupCipher, 'alice', await alice!.encryptWith(inlineGroupCipher, { text: 'retry' })))
+      .toEqual({ text: 'retry' })
+    expect(bob!.serialize().keys.alice!.sk).toEqual([])
+  })
+})
@@ -0,0 +1,387 @@
+import nacl from 'tweetnacl'
+import {
+  ratchetStep,
+  encryptMessage,
+  decryptMessage,
+  decodeHeader,
+  keysEqual,
+  encodeBase64,
+  decodeBase64,
+  HEADER_LENGTH,
+  type MessageHeader,
+  type MessagePayload,
+  type CryptoProgress,
+} from './crypto'
+import { MAX_SKIP, MAX_SKIPPED_KEYS } from './ratchet'
+import { DEFAULT_PAYLOAD_OPTIONS, type PayloadOptions } from './padding'
+import type { SenderKeyData, GroupKeysData } from './types/session'
+import { log } from './log'
+
+// Sent to every member over the pairwise ratchet: the chain starts at `n`,
+// so a member who joins later cannot read earlier messages
+export interface SenderKeyDistribution {
+  spk: string // signing public key
+  ck: string  // chain key for message n
+  n: number
+}
+
+const SIGNATURE_LENGTH = nacl.sign.signatureLength
+
+// ─── Sender Key ──────────────────────────────────────────────────
+// A symmetric hash chain owned by one member, plus an Ed25519 key that signs
+// every message so other members cannot forge it. Wire format:
+// base64(signature (64) | header (40) | nonce (24) | secretbox), where the
+// header is the usual `dh | pn | n` with the signing key in place of `dh`.
+
+export class SenderKey {
+  readonly signingKey: Uint8Array
+  private signingSecret: Uint8Array | null
+  private chain: Uint8Array
+  private index: number
+  private skippedKeys: Map<number, Uint8Array>
+
+  // Receives in flight through decryptWith(), and how many have committed
+  private receiving: Promise<unknown> = Promise.resolve()
+  private revision = 0
+
+  private constructor(data: SenderKeyData) {
+    this.signingKey = decodeBase64(data.spk)
+    this.signingSecret = data.ssk ? decodeBase64(data.ssk) : null
+    this.chain = decodeBase64(data.ck)
+    this.index = data.n
+    this.skippedKeys = new Map(data.sk.map(([n, key]) => [n, decodeBase64(key)]))
+  }
+
+  static create(): SenderKey {
+    const signing = nacl.sign.keyPair()
+    return new SenderKey({
+      spk: encodeBase64(signing.publicKey),
+      ssk: encodeBase64(signing.secretKey),
+      ck: encodeBase64(nacl.randomBytes(32)),
+      n: 0,
+      sk: [],
+    })
+  }
+
+  static fromDistribution(dist: SenderKeyDistribution): SenderKey {
+    return new SenderKey({ spk: dist.spk, ck: dist.ck, n: dist.n, sk: [] })
+  }
+
+  static restore(data: SenderKeyData): SenderKey {
+    return new SenderKey(data)
+  }
+
+  serialize(): SenderKeyData {
+    return {
+      spk: encodeBase64(this.signingKey),
+      ssk: this.signingSecret ? encodeBase64(this.signingSecret) : undefined,
+      ck: encodeBase64(this.chain),
+      n: this.index,
+      sk: [...this.skippedKeys].map(([n, key]) => [n, encodeBase64(key)]),
+    }
+  }
+
+  distribution(): SenderKeyDistribution {
+    return { spk: encodeBase64(this.signingKey), ck: encodeBase64(this.chain), n: this.index }
+  }
+
+  // `peerFormats`: what every member reads (see GroupSession.encrypt)
+  encrypt(payload: MessagePayload, options = DEFAULT_PAYLOAD_OPTIONS, peerFormats: number | null = null): string {
+    const send = this.nextSend()
+    try {
+      return sealSigned(send.messageKey, send.header, payload, options, peerFormats, send.signingSecret)
+    } catch (err) {
+      send.rollback()
+      throw err
+    }
+  }
+
+  // Like encrypt(), with the sealing and signing done by `cipher` (e.g. in a
+  // worker). The chain moves before the first await, as in
+  // RatchetSession.encryptWith().
+  async encryptWith(
+    cipher: GroupCipher,
+    payload: MessagePayload,
+    options = DEFAULT_PAYLOAD_OPTIONS,
+    peerFormats: number | null = null,
+    onProgress?: CryptoProgress
+  ): Promise<string> {
+    const send = this.nextSend()
+    try {
+      return await cipher.seal(send.messageKey, send.header, payload, options, peerFormats, send.signingSecret, onProgress)
+    } catch (err) {
+      send.rollback()
+      throw err
+    }
+  }
+
+  private nextSend() {
+    if (!this.signingSecret) throw new Error('Cannot send with another member\'s sender key')
+    const prev = { chain: this.chain, index: this.index }
+    const { nextChainKey, messageKey } = ratchetStep(this.chain)
+    const header: MessageHeader = { dh: this.signingKey, pn: 0, n: this.index }
+    this.chain = nextChainKey
+    this.index++
+
+    const rollback = () => {
+      if (this.chain !== nextChainKey) return
+      this.chain = prev.chain
+      this.index = prev.index
+    }
+    return { messageKey, header, signingSecret: this.signingSecret, rollback }
+  }
+
+  // Like RatchetSession.decrypt(): keys for skipped messages are kept (bounded)
+  // and state changes only after the signature and ciphertext check out
+  decrypt(encoded: string): MessagePayload | null {
+    const receive = this.planReceive(encoded)
+    if (!receive) return null
+    const payload = openSigned(receive.messageKey, encoded, this.signingKey)
+    return payload && receive.commit(payload)
+  }
+
+  // Like decrypt(), with the checks done by `cipher`. Receives run one at a
+  // time, as in RatchetSession.decryptWith().
+  decryptWith(cipher: GroupCipher, encoded: string, onProgress?: CryptoProgress): Promise<MessagePayload | null> {
+    const run = this.receiving.then(async () => {
+      const receive = this.planReceive(encoded)
+      if (!receive) return null
+      const payload = await cipher.open(receive.messageKey, encoded, this.signingKey, onProgress)
+      return payload && receive.commit(payload)
+    })
+    this.receiving = run.catch(() => {})
+    return run
+  }
+
+  // Derives the message key from the (not yet verified) header without
+  // changing any state
+  private planReceive(encoded: string): { messageKey: Uint8Array; commit: (payload: MessagePayload) => MessagePayload } | null {
+    const header = parseSignedHeader(encoded)
+    if (!header || !keysEqual(header.dh, this.signingKey)) {
+      log.error('[Group] Message is not from this sender key')
+      return null
+    }
+    const revision = this.revision
+
+    const stored = this.skippedKeys.get(header.n)
+    if (stored) {
+      return {
+        messageKey: stored,
+        commit: (payload) => {
+          this.checkRevision(revision)
+          this.skippedKeys.delete(header.n)
+          return payload
+        },
+      }
+    }
+    if (header.n < this.index) {
+      log.error(`[Group] Duplicate or replayed message (n=${header.n})`)
+      return null
+    }
+    if (header.n - this.index > MAX_SKIP) {
+      log.error(`[Group] Too many skipped messages (${header.n - this.index})`)
+      return null
+    }
+
+    let chain = this.chain
+    const newSkipped: [number, Uint8Array][] = []
+    for (let n = this.index; n < header.n; n++) {
+      const { nextChainKey, messageKey } = ratchetStep(chain)
+      newSkipped.push([n, messageKey])
+      chain = nextChainKey
+    }
+    const { nextChainKey, messageKey } = ratchetStep(chain)
+
+    const commit = (payload: MessagePayload) => {
+      this.checkRevision(revision)
+      this.chain = nextChainKey
+      this.index = header.n + 1
+      for (const [n, key] of newSkipped) this.skippedKeys.set(n, key)
+      while (this.skippedKeys.size > MAX_SKIPPED_KEYS) {
+        this.skippedKeys.delete(this.skippedKeys.keys().next().value!)
+      }
+      return payload
+    }
+    return { messageKey, commit }
+  }
+
+  private checkRevision(revision: number) {
+    if (revision !== this.revision) throw new Error('Sender key changed while a message was being decrypted')
+    this.revision++
+  }
+}
+
+// ─── Signed Messages ─────────────────────────────────────────────
+// The byte work of a group message once the sender key has derived the
+// message key. Pure, so the crypto worker runs it as well (cryptoOps.ts).
+
+export interface GroupCipher {
+  seal(
+    messageKey: Uint8Array,
+    header: MessageHeader,
+    payload: MessagePayload,
+    options: PayloadOptions,
+    peerFormats: number | null,
+    signingSecret: Uint8Array,
+    onProgress?: CryptoProgress
+  ): Promise<string>
+  open(messageKey: Uint8Array, encoded: string, signingKey: Uint8Array, onProgress?: CryptoProgress): Promise<MessagePayload | null>
+}
+
+export function sealSigned(
+  messageKey: Uint8Array,
+  header: MessageHeader,
+  payload: MessagePayload,
+  options: PayloadOptions,
+  peerFormats: number | null,
+  signingSecret: Uint8Array,
+  onProgress?: CryptoProgress
+): string {
+  const body = decodeBase64(encryptMessage(messageKey, header, payload, options, peerFormats, onProgress))
+  const signed = new Uint8Array(SIGNATURE_LENGTH + body.length)
+  signed.set(nacl.sign.detached(body, signingSecret))
+  signed.set(body, SIGNATURE_LENGTH)
+  return encodeBase64(signed)
+}
+
+export function openSigned(messageKey: Uint8Array, encoded: string, signingKey: Uint8Array, onProgress?: CryptoProgress): MessagePayload | null {
+  let signed: Uint8Array
+  try {
+    signed = decodeBase64(encoded)
+  } catch {
+    return null
+  }
+  const signature = signed.subarray(0, SIGNATURE_LENGTH)
+  const body = signed.subarray(SIGNATURE_LENGTH)
+  if (!nacl.sign.detached.verify(body, signature, signingKey)) {
+    log.error('[Group] Bad sender signature')
+    return null
+  }
+  return decryptMessage(messageKey, encodeBase64(body), onProgress)
+}
+
+export const inlineGroupCipher: GroupCipher = {
+  seal: async (...args) => sealSigned(...args),
+  open: async (...args) => openSigned(...args),
+}
+
+// The header follows the signature; only the bytes up to its end are decoded
+function parseSignedHeader(encoded: string): MessageHeader | null {
+  if (encoded.length % 4 !== 0 || encoded.length < Math.ceil((SIGNATURE_LENGTH + HEADER_LENGTH) / 3) * 4) return null
+  try {
+    const prefix = decodeBase64(encoded.slice(0, Math.ceil((SIGNATURE_LENGTH + HEADER_LENGTH) / 3) * 4))
+    return decodeHeader(prefix.subarray(SIGNATURE_LENGTH, SIGNATURE_LENGTH + HEADER_LENGTH))
+  } catch {
+    return null
+  }
+}
+
+// ─── Group Session ───────────────────────────────────────────────
+// Our own sender key plus the chains other members distributed to us. The
+// app decides membership; this class only tracks who holds our current key.
+
+export class GroupSession {
+  private own: SenderKey
+  private keys: Map<string, SenderKey>
+  private sentTo: Set<string>
+
+  private constructor(data: { own: SenderKey; keys: Map<string, SenderKey>; sent: string[] }) {
+    this.own = data.own
+    this.keys = data.keys
+    this.sentTo = new Set(data.sent)
+  }
+
+  static create(): GroupSession {
+    return new GroupSession({ own: SenderKey.create(), keys: new Map(), sent: [] })
+  }
+
+  static restore(data: GroupKeysData): GroupSession {
+    return new GroupSession({
+      own: SenderKey.restore(data.own),
+      keys: new Map(Object.entries(data.keys).map(([member, key]) => [member, SenderKey.restore(key)])),
+      sent: data.sent,
+    })
+  }
+
+  serialize(): GroupKeysData {
+    return {
+      own: this.own.serialize(),
+      keys: Object.fromEntries([...this.keys].map(([member, key]) => [member, key.serialize()])),
+      sent: [...this.sentTo],
+    }
+  }
+
+  // ─── Send ──────────────────────────────────────────────────
+
+  // The payload formats of a group message are the ones every member
+  // advertised over their pairwise session — the app works them out
+  encrypt(payload: MessagePayload, options: PayloadOptions = DEFAULT_PAYLOAD_OPTIONS, peerFormats: number | null = null): string {
+    return this.own.encrypt(payload, options, peerFormats)
+  }
+
+  encryptWith(
+    cipher: GroupCipher,
+    payload: MessagePayload,
+    options: PayloadOptions = DEFAULT_PAYLOAD_OPTIONS,
+    peerFormats: number | null = null,
+    onProgress?: CryptoProgress
+  ): Promise<string> {
+    return this.own.encryptWith(cipher, payload, options, peerFormats, onProgress)
+  }
+
+  // Members (identity keys) that still need our current chain
+  needsKey(members: string[]): string[] {
+    return members.filter(m => !this.sentTo.has(m))
+  }
+
+  distribution(): SenderKeyDistribution {
+    return this.own.distribution()
+  }
+
+  markSent(member: string) {
+    this.sentTo.add(member)
+  }
+
+  // Starts a new chain that nobody has yet — after a member left
+  rotate() {
+    this.own = SenderKey.create()
+    this.sentTo.clear()
+    log.info('[Group] Rotated our sender key')
+  }
+
+  // ─── Receive ───────────────────────────────────────────────
+
+  hasKey(member: string): boolean {
+    return this.keys.has(member)
+  }
+
+  // A repeated distribution of the chain we already hold is ignored, so it
+  // cannot rewind the chain to replay old messages
+  addKey(member: string, dist: SenderKeyDistribution): boolean {
+    try {
+      if (decodeBase64(dist.spk).length !== nacl.sign.publicKeyLength || decodeBase64(dist.ck).length !== 32) return false
+    } catch {
+      return false
+    }
+    const current = this.keys.get(member)
+    if (current && encodeBase64(current.signingKey) === dist.spk) return false
+    this.keys.set(member, SenderKey.fromDistribution(dist))
+    return true
+  }
+
+  dropKey(member: string) {
+    this.keys.delete(member)
+  }
+
+  decrypt(member: string, encoded: string): MessagePayload | null {
+    const key = this.keys.get(member)
+    if (!key) return null
+    return key.decrypt(encoded)
+  }
+
+  async decryptWith(cipher: GroupCipher, member: string, encoded: string, onProgress?: CryptoProgress): Promise<MessagePayload | null> {
+    const key = this.keys.get(member)
+    if (!key) return null
+    return key.decryptWith(cipher, encoded, onProgress)
+  }
+}
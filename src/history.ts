@@ -0,0 +1,211 @@
+import nacl from 'tweetnacl'
+import type { MessagePayload } from './crypto'
+import type { OutboxStatus } from './outbox'
+import { log } from './log'
+
+// ─── Types ───────────────────────────────────────────────────────
+
+// Delivery state of a sent message: queued in the outbox, then advanced by
+// the peer's receipts
+export type MessageStatus = OutboxStatus | 'sent' | 'delivered' | 'read'
+
+// A history entry: the decrypted payload plus which side sent it
+export interface StoredMessage extends MessagePayload {
+  dir: 'sent' | 'received'
+  status?: MessageStatus
+  from?: string // group messages: sender's identity key
+  exp?: number  // disappearing: epoch ms at which the entry is deleted
+  rows?: Array<string | number> // disappearing, sent: transport rows to withdraw if still undelivered
+  edited?: boolean
+  reactions?: Record<string, string> // identity key (base64) → emoji
+}
+
+export interface HistoryPage {
+  entries: Array<{ key: number; message: StoredMessage }> // oldest first
+  hasMore: boolean // older entries remain before this page
+}
+
+// IndexedDB record — everything except the routing fields is sealed
+interface HistoryRecord {
+  key?: number      // auto-increment, also gives the message order
+  conv: string      // conversation ID
+  nonce: Uint8Array
+  box: Uint8Array   // nacl.secretbox(JSON StoredMessage)
+}
+
+const DB_NAME = 'xchat-history'
+const DB_VERSION = 1
+const STORE = 'messages'
+const BY_CONV = 'by-conv' // [conv, key] — a conversation's entries in order
+
+// ─── Database ────────────────────────────────────────────────────
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION)
+      req.onupgradeneeded = () => {
+        const store = req.result.createObjectStore(STORE, { keyPath: 'key', autoIncrement: true })
+        store.createIndex(BY_CONV, ['conv', 'key'])
+      }
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => {
+        dbPromise = null
+        reject(req.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+// ─── Storage Key ─────────────────────────────────────────────────
+
+export function newHistoryKey(): Uint8Array {
+  return nacl.randomBytes(nacl.secretbox.keyLength)
+}
+
+function seal(key: Uint8Array, message: StoredMessage): Pick<HistoryRecord, 'nonce' | 'box'> {
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength)
+  return { nonce, box: nacl.secretbox(new TextEncoder().encode(JSON.stringify(message)), nonce, key) }
+}
+
+function open(key: Uint8Array, record: HistoryRecord): StoredMessage | null {
+  const plainBytes = nacl.secretbox.open(record.box, record.nonce, key)
+  return plainBytes ? JSON.parse(new TextDecoder().decode(plainBytes)) : null
+}
+
+// ─── Read / Write ────────────────────────────────────────────────
+
+export async function appendMessage(key: Uint8Array, conv: string, message: StoredMessage): Promise<number> {
+  const db = await openDb()
+  const tx = db.transaction(STORE, 'readwrite')
+  const req = tx.objectStore(STORE).add({ conv, ...seal(key, message) } satisfies HistoryRecord)
+  await done(tx)
+  return req.result as number
+}
+
+// Re-seals an entry with some fields changed (e.g. its delivery status)
+export async function updateMessage(key: Uint8Array, entry: number, changes: Partial<StoredMessage>): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(STORE, 'readwrite')
+  const store = tx.objectStore(STORE)
+  const req = store.get(entry)
+  req.onsuccess = () => {
+    const record = req.result as HistoryRecord | undefined
+    const message = record && open(key, record)
+    if (!record || !message) return
+    store.put({ ...record, ...seal(key, { ...message, ...changes }) })
+  }
+  await done(tx)
+}
+
+// Newest `limit` entries older than `before` (or the newest overall)
+export async function loadPage(
+  key: Uint8Array,
+  conv: string,
+  before: number | null,
+  limit: number
+): Promise<HistoryPage> {
+  const db = await openDb()
+  const tx = db.transaction(STORE, 'readonly')
+  const upper = before === null ? [conv, Infinity] : [conv, before]
+  const range = IDBKeyRange.bound([conv, -Infinity], upper, false, before !== null)
+  const cursorReq = tx.objectStore(STORE).index(BY_CONV).openCursor(range, 'prev')
+
+  const records: HistoryRecord[] = []
+  let hasMore = false
+  cursorReq.onsuccess = () => {
+    const cursor = cursorReq.result
+    if (!cursor) return
+    if (records.length === limit) {
+      hasMore = true
+      return
+    }
+    records.push(cursor.value)
+    cursor.continue()
+  }
+  await done(tx)
+
+  const entries: HistoryPage['entries'] = []
+  for (const record of records.reverse()) {
+    const message = open(key, record)
+    if (!message) {
+      log.error(`[History] Entry ${record.key} failed to decrypt — skipping`)
+      continue
+    }
+    entries.push({ key: record.key!, message })
+  }
+  return { entries, hasMore }
+}
+
+// A conversation's entry by payload `id`, newest first — for edits and
+// deletions of messages that are not loaded. Opens every entry it passes.
+export async function findMessage(
+  key: Uint8Array,
+  conv: string,
+  id: string
+): Promise<{ key: number; message: StoredMessage } | null> {
+  const db = await openDb()
+  const tx = db.transaction(STORE, 'readonly')
+  const range = IDBKeyRange.bound([conv, -Infinity], [conv, Infinity])
+  const cursorReq = tx.objectStore(STORE).index(BY_CONV).openCursor(range, 'prev')
+
+  let found: { key: number; message: StoredMessage } | null = null
+  cursorReq.onsuccess = () => {
+    const cursor = cursorReq.result
+    if (!cursor) return
+    const record = cursor.value as HistoryRecord
+    const message = open(key, record)
+    if (message?.id === id) {
+      found = { key: record.key!, message }
+      return
+    }
+    cursor.continue()
+  }
+  await done(tx)
+  return found
+}
+
+export async function removeMessage(key: number): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(STORE, 'readwrite')
+  tx.objectStore(STORE).delete(key)
+  await done(tx)
+}
+
+export async function clearConversation(conv: string): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(STORE, 'readwrite')
+  const range = IDBKeyRange.bound([conv, -Infinity], [conv, Infinity])
+  const cursorReq = tx.objectStore(STORE).index(BY_CONV).openKeyCursor(range)
+  cursorReq.onsuccess = () => {
+    const cursor = cursorReq.result
+    if (!cursor) return
+    tx.objectStore(STORE).delete(cursor.primaryKey)
+    cursor.continue()
+  }
+  await done(tx)
+}
+
+// Deletes the whole database (reset)
+export async function clearHistory(): Promise<void> {
+  const db = dbPromise ? await dbPromise.catch(() => null) : null
+  db?.close()
+  dbPromise = null
+  await new Promise<void>((resolve, reject) => {
+    const req = indexedDB.deleteDatabase(DB_NAME)
+    req.onsuccess = () => resolve()
+    req.onerror = () => reject(req.error)
+    req.onblocked = () => resolve()
+  })
+}
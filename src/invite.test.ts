@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import nacl from 'tweetnacl'
+import { encodeHandshakeCode } from './crypto'
+import { encodeInvite, parseInvite, inviteLink, inviteTransport, inviteChecksum, INVITE_PREFIX } from './invite'
+
+const code = encodeHandshakeCode(nacl.box.keyPair().publicKey, nacl.box.keyPair().publicKey)
+
+const supabase = {
+  url: 'https://example.supabase.co',
+  anonKey: 'anon',
+  table: 'messages',
+  column: 'content',
+  idColumn: 'id',
+  senderColumn: 'sender',
+  bucket: '',
+  pollInterval: 5000,
+}
+
+// An invite whose transport is whatever a peer wrote, valid or not
+function rawInvite(transport: unknown): string {
+  const json = JSON.stringify({ c: code, k: inviteChecksum(code), t: transport })
+  return INVITE_PREFIX + btoa(json).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+describe('invites', () => {
+  it('round-trip the code and transport settings through a link', () => {
+    const transport = inviteTransport('supabase', supabase)!
+    const link = inviteLink('https://xchat.example/app/#old', { code, transport })
+    expect(link.startsWith(`https://xchat.example/app/#invite=${INVITE_PREFIX}`)).toBe(true)
+    expect(parseInvite(link)).toEqual({ code, transport })
+    // The poll interval is a local preference
+    expect(transport.settings).not.toHaveProperty('pollInterval')
+  })
+
+  it('accept a bare invite string and a plain handshake code', () => {
+    expect(parseInvite(`  ${encodeInvite({ code })}\n`)).toEqual({ code })
+    expect(parseInvite(code)).toEqual({ code })
+    expect(() => parseInvite('not a code')).toThrow()
+  })
+
+  it('catch a code changed in transit', () => {
+    const invite = encodeInvite({ code })
+    const json = JSON.parse(atob(invite.slice(INVITE_PREFIX.length).replace(/-/g, '+').replace(/_/g, '/')))
+    const other = encodeHandshakeCode(nacl.box.keyPair().publicKey, nacl.box.keyPair().publicKey)
+    const forged = INVITE_PREFIX + btoa(JSON.stringify({ ...json, c: other })).replace(/=+$/, '')
+    expect(() => parseInvite(forged)).toThrow('checksum mismatch')
+    expect(() => parseInvite(invite.slice(0, -8))).toThrow('Invalid invite')
+  })
+
+  it('take over only known transport fields', () => {
+    const invite = rawInvite({ kind: 'relay', settings: { url: 'https://relay.example', token: 't', wsUrl: '', extra: 'x' } })
+    expect(parseInvite(invite).transport).toEqual({ kind: 'relay', settings: { url: 'https://relay.example', token: 't', wsUrl: '' } })
+
+    expect(parseInvite(rawInvite({ kind: 'carrier-pigeon', settings: {} }))).toEqual({ code })
+    expect(parseInvite(rawInvite({ kind: 'relay', settings: { url: 42 } }))).toEqual({ code })
+    expect(parseInvite(rawInvite(['relay']))).toEqual({ code })
+    expect(() => parseInvite(INVITE_PREFIX + btoa('null'))).toThrow('Invalid invite')
+  })
+})
@@ -0,0 +1,146 @@
+import { encodeBase64, decodeBase64 } from 'tweetnacl-util'
+import { sha256 } from '@noble/hashes/sha2.js'
+import { decodeHandshakeCode } from './crypto'
+import type { DbSettings } from './types/db'
+import type { RelaySettings, BroadcastSettings, TransportKind } from './types/transport'
+
+// ─── Invites ─────────────────────────────────────────────────────
+// One string that starts a chat: the handshake code, a checksum over it, and
+// optionally the transport settings so the peer does not have to type them.
+// It travels as `xc1.<base64url JSON>` — on its own (reply codes), or in the
+// fragment of a link to the app (`…#invite=xc1.…`), which browsers never
+// send to a server. The same link is rendered as a QR code.
+
+export const INVITE_PREFIX = 'xc1.'
+export const INVITE_PARAM = 'invite'
+
+const CHECKSUM_BYTES = 6
+
+export type InviteTransport =
+  | { kind: 'supabase'; settings: Omit<DbSettings, 'pollInterval'> }
+  | { kind: 'relay'; settings: Omit<RelaySettings, 'pollInterval'> }
+  | { kind: 'broadcast'; settings: BroadcastSettings }
+
+export interface Invite {
+  code: string               // handshake code (base64)
+  transport?: InviteTransport
+}
+
+interface InviteJson {
+  c: string  // handshake code
+  k: string  // checksum
+  t?: InviteTransport
+}
+
+// Catches a code that was cut short or mistyped on the way
+export function inviteChecksum(code: string): string {
+  return toBase64Url(sha256(decodeBase64(code)).subarray(0, CHECKSUM_BYTES))
+}
+
+export function encodeInvite(invite: Invite): string {
+  const json: InviteJson = { c: invite.code, k: inviteChecksum(invite.code), ...(invite.transport && { t: invite.transport }) }
+  return INVITE_PREFIX + toBase64Url(new TextEncoder().encode(JSON.stringify(json)))
+}
+
+export function inviteLink(base: string, invite: Invite): string {
+  return `${base.split('#')[0]}#${INVITE_PARAM}=${encodeInvite(invite)}`
+}
+
+// Accepts a link, a bare `xc1.` string or — from older builds and the CLI —
+// a plain handshake code. Throws with a message fit for the user.
+export function parseInvite(text: string): Invite {
+  const input = text.trim()
+  const marker = input.indexOf(`#${INVITE_PARAM}=`)
+  const encoded = marker !== -1 ? input.slice(marker + INVITE_PARAM.length + 2) : input
+  if (!encoded.startsWith(INVITE_PREFIX)) {
+    decodeHandshakeCode(encoded) // throws if it is not a code either
+    return { code: encoded }
+  }
+
+  let json: unknown
+  try {
+    json = JSON.parse(new TextDecoder().decode(fromBase64Url(encoded.slice(INVITE_PREFIX.length))))
+  } catch {
+    throw new Error('Invalid invite — copy the whole link or code')
+  }
+  if (!isRecord(json) || typeof json.c !== 'string' || typeof json.k !== 'string') throw new Error('Invalid invite')
+  let checksum: string
+  try {
+    checksum = inviteChecksum(json.c)
+  } catch {
+    throw new Error('Invalid invite')
+  }
+  if (checksum !== json.k) throw new Error('Invite checksum mismatch — the code was changed or cut short')
+  decodeHandshakeCode(json.c)
+
+  const transport = sanitizeTransport(json.t)
+  return { code: json.c, ...(transport && { transport }) }
+}
+
+// The settings of a connected transport, as they go into an invite (the poll
+// interval stays a local preference)
+export function inviteTransport(kind: TransportKind, settings: object): InviteTransport | undefined {
+  return sanitizeTransport({ kind, settings })
+}
+
+// Only known string fields are taken over, so an invite cannot smuggle
+// anything else into the stored settings
+function sanitizeTransport(t: unknown): InviteTransport | undefined {
+  if (!isRecord(t) || !isRecord(t.settings)) return undefined
+  const s = t.settings
+  const str = (key: string) => {
+    const value = s[key]
+    return typeof value === 'string' ? value : ''
+  }
+  switch (t.kind) {
+    case 'supabase':
+      if (!str('url') || !str('anonKey')) return undefined
+      return {
+        kind: 'supabase',
+        settings: {
+          url: str('url'), anonKey: str('anonKey'), table: str('table'), column: str('column'),
+          idColumn: str('idColumn') || 'id', senderColumn: str('senderColumn'), bucket: str('bucket'),
+        },
+      }
+    case 'relay':
+      if (!str('url')) return undefined
+      return { kind: 'relay', settings: { url: str('url'), token: str('token'), wsUrl: str('wsUrl') } }
+    case 'broadcast':
+      if (!str('channel')) return undefined
+      return { kind: 'broadcast', settings: { channel: str('channel') } }
+    default:
+      return undefined
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// For showing an invite before it is accepted
+export function describeTransport(t: InviteTransport): string {
+  switch (t.kind) {
+    case 'supabase': return `Supabase · ${hostOf(t.settings.url)}${t.settings.table ? ` · table ${t.settings.table}` : ''}`
+    case 'relay': return `Relay · ${hostOf(t.settings.url)}`
+    case 'broadcast': return `Same Browser · channel ${t.settings.channel}`
+  }
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host
+  } catch {
+    return url
+  }
+}
+
+// ─── Base64url ───────────────────────────────────────────────────
+
+function toBase64Url(bytes: Uint8Array): string {
+  return encodeBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/')
+  return decodeBase64(base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+}
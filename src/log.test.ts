@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { log, secret, setLogLevel, recentLogs, clearLogs, diagnosticBundle, addEntry } from './log'
+
+const printed = vi.spyOn(console, 'log').mockImplementation(() => {})
+vi.spyOn(console, 'warn').mockImplementation(() => {})
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+const key = 'q0VtYJm3rWbH2hQ9c1xZp8sK4fN7uLdE6aTgBvRyMiO='
+
+beforeEach(() => {
+  clearLogs()
+  printed.mockClear()
+})
+
+describe('log', () => {
+  it('redacts secrets below trace-secrets', () => {
+    setLogLevel('debug')
+    log.debug('[Ratchet] Message key:', secret(key))
+    expect(printed).toHaveBeenCalledWith('[Ratchet] Message key: ‹redacted 44 chars›')
+    expect(recentLogs()[0]!.text).not.toContain(key)
+  })
+
+  it('prints secrets only when tracing, and never keeps them', () => {
+    setLogLevel('trace-secrets')
+    log.debug('[Ratchet] Message key:', secret(key))
+    expect(printed).toHaveBeenCalledWith(`[Ratchet] Message key: ${key}`)
+    expect(diagnosticBundle()).not.toContain(key)
+    setLogLevel('info')
+  })
+
+  it('masks unmarked base64 runs in kept lines', () => {
+    setLogLevel('info')
+    log.info('[KeyGen] Public key:', key)
+    expect(recentLogs()[0]!.text).toBe('[KeyGen] Public key: ‹44 chars›')
+  })
+
+  it('drops lines above the level and keeps errors when silent', () => {
+    setLogLevel('info')
+    log.debug('[Encrypt] Header: n=3')
+    expect(printed).not.toHaveBeenCalled()
+    setLogLevel('silent')
+    log.info('[Send] Sent')
+    log.error('[Decrypt] FAILED')
+    expect(printed).not.toHaveBeenCalled()
+    expect(recentLogs().map(e => e.text)).toEqual(['[Decrypt] FAILED'])
+    setLogLevel('info')
+  })
+
+  it('keeps lines forwarded from a worker without printing them again', () => {
+    addEntry({ at: 1, level: 'error', text: '[Decrypt] FAILED' })
+    expect(printed).not.toHaveBeenCalled()
+    expect(recentLogs()).toEqual([{ at: 1, level: 'error', text: '[Decrypt] FAILED' }])
+  })
+})
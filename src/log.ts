@@ -0,0 +1,150 @@
+// ─── Logging ─────────────────────────────────────────────────────
+// Every module logs through here instead of the console. Browser extensions,
+// shared screens and the Tauri log plugin all read the console, so key
+// material is wrapped in secret() and only printed at 'trace-secrets' — a
+// level that has to be picked by hand and is never restored after a reload.
+//
+//   silent         nothing on the console (warnings and errors are still kept)
+//   info           what happened: connected, sent, received, failed
+//   debug          + protocol steps: header fields, sizes, chain positions
+//   trace-secrets  + keys, nonces, shared secrets and payload contents
+//
+// The last MAX_ENTRIES lines are kept in memory, always redacted, for the log
+// viewer and the diagnostic bundle.
+
+export type LogLevel = 'silent' | 'info' | 'debug' | 'trace-secrets'
+type EntryLevel = 'error' | 'warn' | 'info' | 'debug'
+
+export const LOG_LEVELS: Array<{ value: LogLevel; label: string }> = [
+  { value: 'silent', label: 'Silent' },
+  { value: 'info', label: 'Info' },
+  { value: 'debug', label: 'Debug' },
+  { value: 'trace-secrets', label: 'Trace (shows secrets)' },
+]
+
+export interface LogEntry {
+  at: number
+  level: EntryLevel
+  text: string // redacted
+}
+
+const RANK: Record<LogLevel | EntryLevel, number> = {
+  silent: 0, error: 1, warn: 1, info: 2, debug: 3, 'trace-secrets': 4,
+}
+const MAX_ENTRIES = 500
+
+let level: LogLevel = 'info'
+const entries: LogEntry[] = []
+const listeners = new Set<(entry: LogEntry) => void>()
+
+export function getLogLevel(): LogLevel {
+  return level
+}
+
+export function setLogLevel(next: LogLevel) {
+  if (next === level) return
+  level = next
+  if (next === 'trace-secrets') console.warn('[Log] Secret tracing on — keys and message contents are printed to the console')
+}
+
+// ─── Secrets ─────────────────────────────────────────────────────
+
+class Secret {
+  readonly value: unknown
+  constructor(value: unknown) {
+    this.value = value
+  }
+}
+
+// Marks a log argument as key material or message content
+export function secret(value: unknown): Secret {
+  return new Secret(value)
+}
+
+function describeSecret(value: unknown): string {
+  if (value instanceof Uint8Array) return `‹redacted ${value.length} bytes›`
+  if (typeof value === 'string') return `‹redacted ${value.length} chars›`
+  return '‹redacted›'
+}
+
+// Long base64 runs (keys, tags, ciphertext) that were not marked as secrets
+const BASE64_RUN = /[A-Za-z0-9+/_-]{40,}={0,2}/g
+
+export function redact(text: string): string {
+  return text.replace(BASE64_RUN, run => `‹${run.length} chars›`)
+}
+
+function format(args: unknown[], reveal: boolean): string {
+  return args.map((arg) => {
+    if (arg instanceof Secret) return reveal ? format([arg.value], true) : describeSecret(arg.value)
+    if (typeof arg === 'string') return arg
+    if (arg instanceof Error) return arg.message
+    try {
+      return JSON.stringify(arg)
+    } catch {
+      return String(arg)
+    }
+  }).join(' ')
+}
+
+// ─── Output ──────────────────────────────────────────────────────
+
+function emit(entryLevel: EntryLevel, args: unknown[]) {
+  const show = RANK[level] >= RANK[entryLevel]
+  if (!show && entryLevel !== 'error' && entryLevel !== 'warn') return
+
+  const entry: LogEntry = { at: Date.now(), level: entryLevel, text: redact(format(args, false)) }
+  keep(entry)
+
+  if (!show) return
+  const line = level === 'trace-secrets' ? format(args, true) : entry.text
+  if (entryLevel === 'error') console.error(line)
+  else if (entryLevel === 'warn') console.warn(line)
+  else console.log(line)
+}
+
+function keep(entry: LogEntry) {
+  entries.push(entry)
+  if (entries.length > MAX_ENTRIES) entries.splice(0, entries.length - MAX_ENTRIES)
+  listeners.forEach(listener => listener(entry))
+}
+
+// A line a worker logged: it printed the line on its own console, so it is
+// only kept here for the viewer and the diagnostic bundle
+export function addEntry(entry: LogEntry) {
+  keep(entry)
+}
+
+export const log = {
+  error: (...args: unknown[]) => emit('error', args),
+  warn: (...args: unknown[]) => emit('warn', args),
+  info: (...args: unknown[]) => emit('info', args),
+  debug: (...args: unknown[]) => emit('debug', args),
+}
+
+// ─── Viewer & Diagnostics ────────────────────────────────────────
+
+export function recentLogs(): LogEntry[] {
+  return [...entries]
+}
+
+export function clearLogs() {
+  entries.length = 0
+}
+
+export function onLog(listener: (entry: LogEntry) => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+// JSON for bug reports: environment and the kept lines, never secrets
+export function diagnosticBundle(extra: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    app: 'xchat',
+    exported: new Date().toISOString(),
+    userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
+    level,
+    ...extra,
+    entries: entries.map(e => ({ at: new Date(e.at).toISOString(), level: e.level, text: e.text })),
+  }, null, 2)
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest'
+import nacl from 'tweetnacl'
+import { ref } from 'vue'
+import { useEnvelopes } from './composables/useEnvelopes'
+import { mailboxKey, mailboxTag, mailboxEpoch, sendTag, receiveTags, envelopeMac, verifyEnvelope, MAILBOX_EPOCH, type MailboxRoute } from './mailbox'
+
+const alice = nacl.box.keyPair()
+const bob = nacl.box.keyPair()
+const eve = nacl.box.keyPair()
+
+function route(ours: nacl.BoxKeyPair, peer: nacl.BoxKeyPair, group?: string): MailboxRoute {
+  return {
+    fingerprint: ours === alice ? 'alice' : 'bob',
+    peerFingerprint: peer === alice ? 'alice' : 'bob',
+    group,
+    mailbox: mailboxKey(ours.secretKey, peer.publicKey),
+  }
+}
+
+describe('mailbox tags', () => {
+  it('derives the same key on both sides, and a different one for anyone else', () => {
+    expect(mailboxKey(alice.secretKey, bob.publicKey)).toEqual(mailboxKey(bob.secretKey, alice.publicKey))
+    expect(mailboxKey(eve.secretKey, bob.publicKey)).not.toEqual(mailboxKey(alice.secretKey, bob.publicKey))
+  })
+
+  it('lets the receiver find the tag the sender writes', () => {
+    const now = Date.now()
+    const epoch = mailboxEpoch(now)
+    const tag = sendTag(route(alice, bob), now)
+    expect(receiveTags(route(bob, alice), epoch - 1, epoch + 1)).toContain(tag)
+  })
+
+  it('keeps working across an epoch boundary', () => {
+    const before = (mailboxEpoch() + 1) * MAILBOX_EPOCH - 1
+    const tag = sendTag(route(alice, bob), before)
+    // The receiver's clock has already rolled over
+    const epoch = mailboxEpoch(before + 2)
+    expect(receiveTags(route(bob, alice), epoch - 1, epoch + 1)).toContain(tag)
+  })
+
+  it('gives each direction, epoch and group its own tags', () => {
+    const key = mailboxKey(alice.secretKey, bob.publicKey)
+    const tags = [
+      mailboxTag(key, 'alice', 1),
+      mailboxTag(key, 'bob', 1),
+      mailboxTag(key, 'alice', 2),
+      mailboxTag(key, 'alice', 1, 'group1'),
+      mailboxTag(key, 'alice', 1, 'group2'),
+    ]
+    expect(new Set(tags).size).toBe(tags.length)
+    expect(tags[0]).toMatch(/^[A-Za-z0-9_-]{16}$/)
+  })
+})
+
+describe('envelope MAC', () => {
+  const key = mailboxKey(alice.secretKey, bob.publicKey)
+  const chunk = { s: 'tag', t: 'chunk' as const, mid: 'abc123', seq: 1, total: 3, d: 'ciphertext' }
+  const signed = { ...chunk, m: envelopeMac(key, chunk) }
+
+  it('is accepted by the peer', () => {
+    expect(verifyEnvelope(mailboxKey(bob.secretKey, alice.publicKey), signed)).toBe(true)
+    const message = { s: 'tag', d: 'ciphertext' }
+    expect(verifyEnvelope(key, { ...message, m: envelopeMac(key, message) })).toBe(true)
+  })
+
+  it('rejects tampered, reordered and unsigned envelopes', () => {
+    expect(verifyEnvelope(key, { ...signed, d: 'ciphertexu' })).toBe(false)
+    expect(verifyEnvelope(key, { ...signed, seq: 2 })).toBe(false)
+    expect(verifyEnvelope(key, { ...signed, s: 'other' })).toBe(false)
+    expect(verifyEnvelope(key, chunk)).toBe(false)
+    expect(verifyEnvelope(key, { ...signed, m: 'not base64!' })).toBe(false)
+    const versioned = { ...chunk, v: 1 }
+    expect(verifyEnvelope(key, { ...versioned, v: 2, m: envelopeMac(key, versioned) })).toBe(false)
+  })
+
+  it('rejects a MAC made with another key', () => {
+    const forger = mailboxKey(eve.secretKey, bob.publicKey)
+    expect(verifyEnvelope(key, { ...chunk, m: envelopeMac(forger, chunk) })).toBe(false)
+  })
+})
+
+describe('envelope receive', () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+  const sending = useEnvelopes({ routes: ref([route(alice, bob)]), chunkSize: 4, tag: 'Test' })
+  const wire = (text: string) => sending.frame(route(alice, bob), text).map(e => JSON.stringify(sending.address(route(alice, bob), e)))
+
+  it('skips a row that is not JSON', () => {
+    const receiving = useEnvelopes({ routes: ref([route(bob, alice)]), chunkSize: 4, tag: 'Test' })
+    expect(receiving.receive('{"s":', 1)).toBeNull()
+    expect(receiving.receive(wire('hi')[0], 2)?.row.data.d).toBe('hi')
+  })
+
+  it('reassembles a chunked message once, whatever is polled twice', () => {
+    const receiving = useEnvelopes({ routes: ref([route(bob, alice)]), chunkSize: 4, tag: 'Test' })
+    const [first, second, third] = wire('0123456789')
+    expect(receiving.receive(first, 1)).toBeNull()
+    expect(receiving.receive(first, 1)).toBeNull()  // polled again
+    expect(receiving.receive(second, 2)).toBeNull()
+    expect(receiving.receive(second, 9)).toBeNull() // replayed
+    const received = receiving.receive(third, 3)
+    expect(received?.row.data.d).toBe('0123456789')
+    expect(received?.chunkPks).toEqual([1, 2, 9, 3])
+  })
+
+  it('quarantines authentic chunks whose number or count cannot fit the message', () => {
+    const receiving = useEnvelopes({ routes: ref([route(bob, alice)]), chunkSize: 4, tag: 'Test' })
+    const [first] = sending.frame(route(alice, bob), '0123456789')
+    const forged = (fields: object) => JSON.stringify(sending.address(route(alice, bob), { ...first!, ...fields }))
+    expect(receiving.receive(forged({}), 1)).toBeNull()
+    expect(receiving.receive(forged({ seq: 3 }), 2)).toBeNull()
+    expect(receiving.receive(forged({ seq: 1.5 }), 3)).toBeNull()
+    expect(receiving.receive(forged({ seq: 1, total: 4 }), 4)).toBeNull()
+    expect(receiving.receive(forged({ mid: 'other', total: 0 }), 5)).toBeNull()
+    expect(receiving.quarantine.value.map(q => q.pk)).toEqual([2, 3, 4, 5])
+  })
+})
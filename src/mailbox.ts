@@ -0,0 +1,88 @@
+import nacl from 'tweetnacl'
+import { encodeBase64, decodeBase64 } from 'tweetnacl-util'
+import { hmac } from '@noble/hashes/hmac.js'
+import { sha256 } from '@noble/hashes/sha2.js'
+import type { DbRoute, DbMessageEnvelope, DbChunkEnvelope } from './types/db'
+
+// ─── Mailbox Tags ────────────────────────────────────────────────
+// Rows on a shared server are addressed by a tag that only the two parties
+// can compute and that changes every epoch, instead of key fingerprints.
+// Someone reading the table sees unrelated tags: not who sent a row, not
+// which rows belong to one chat, and not that two directions form a pair.
+
+export const MAILBOX_EPOCH = 6 * 60 * 60 * 1000 // tags rotate every 6 hours
+export const MAILBOX_CATCHUP = 56               // epochs fetched after a restart (14 days)
+
+const TAG_BYTES = 12
+export const TAG_LENGTH = (TAG_BYTES / 3) * 4 // base64url characters, no padding
+const MAC_BYTES = 16
+
+const encoder = new TextEncoder()
+
+export function mailboxEpoch(now = Date.now()): number {
+  return Math.floor(now / MAILBOX_EPOCH)
+}
+
+// Static X25519 between the two identity keys: both sides derive it on their
+// own, for any chat or group they share, and nobody else can
+export function mailboxKey(ourSecretKey: Uint8Array, theirPublicKey: Uint8Array): Uint8Array {
+  return hmac(sha256, nacl.box.before(theirPublicKey, ourSecretKey), encoder.encode('xchat-mailbox-v1'))
+}
+
+// `sender` (a fingerprint) gives each direction its own tags; a group's rows
+// are tagged apart from the pairwise chat's
+export function mailboxTag(key: Uint8Array, sender: string, epoch: number, group = ''): string {
+  const mac = hmac(sha256, key, encoder.encode(`${sender}|${group}|${epoch}`))
+  return encodeBase64(mac.subarray(0, TAG_BYTES)).replace(/\+/g, '-').replace(/\//g, '_')
+}
+
+// ─── Routes ──────────────────────────────────────────────────────
+
+export type MailboxRoute = DbRoute & { mailbox: Uint8Array }
+
+export function hasMailbox(route: DbRoute): route is MailboxRoute {
+  return route.mailbox !== undefined
+}
+
+// Tag for a row we write now
+export function sendTag(route: MailboxRoute, now = Date.now()): string {
+  return mailboxTag(route.mailbox, route.fingerprint, mailboxEpoch(now), route.group)
+}
+
+// Tags the peer may have written in epochs `from`..`to`
+export function receiveTags(route: MailboxRoute, from: number, to: number): string[] {
+  const tags: string[] = []
+  for (let epoch = from; epoch <= to; epoch++) {
+    tags.push(mailboxTag(route.mailbox, route.peerFingerprint, epoch, route.group))
+  }
+  return tags
+}
+
+// ─── Envelope MAC ────────────────────────────────────────────────
+// Tags can be read off the table by anyone, so every envelope also carries a
+// MAC under a key derived from the mailbox key. Forged rows and chunks are
+// dropped before they reach the chunk buffer or the ratchet.
+
+type WireEnvelope = Omit<DbMessageEnvelope, 'r' | 'g' | 'm'> & Partial<Pick<DbChunkEnvelope, 't' | 'mid' | 'seq' | 'total'>>
+
+// The protocol version is covered when present; envelopes from builds before
+// versioning hash as they always did
+function macInput(envelope: WireEnvelope): Uint8Array {
+  const fields = [envelope.s, envelope.t ?? null, envelope.mid ?? null, envelope.seq ?? null, envelope.total ?? null, envelope.d]
+  if (envelope.v !== undefined) fields.push(envelope.v)
+  return encoder.encode(JSON.stringify(fields))
+}
+
+export function envelopeMac(mailbox: Uint8Array, envelope: WireEnvelope): string {
+  const key = hmac(sha256, mailbox, encoder.encode('xchat-envelope-v1'))
+  return encodeBase64(hmac(sha256, key, macInput(envelope)).subarray(0, MAC_BYTES))
+}
+
+export function verifyEnvelope(mailbox: Uint8Array, envelope: WireEnvelope & { m?: string }): boolean {
+  if (typeof envelope.m !== 'string' || typeof envelope.s !== 'string' || typeof envelope.d !== 'string') return false
+  try {
+    return nacl.verify(decodeBase64(envelope.m), decodeBase64(envelopeMac(mailbox, envelope)))
+  } catch {
+    return false
+  }
+}
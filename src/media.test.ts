@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { reactive, toRaw } from 'vue'
+import { stripJpegMetadata, fitWithin, waveformPeaks, renameFor, mediaInfo, WAVEFORM_BARS, WAVEFORM_MAX, type MediaInfo } from './media'
+import { encryptMessage, decryptMessage, type MessagePayload } from './crypto'
+
+// Marker, then a segment whose length counts its own two bytes
+const segment = (marker: number, body: number[]) => [0xff, marker, 0, body.length + 2, ...body]
+
+const SOI = [0xff, 0xd8]
+const JFIF = segment(0xe0, [0x4a, 0x46, 0x49, 0x46, 0])
+const EXIF = segment(0xe1, [0x45, 0x78, 0x69, 0x66, 0, 0, 1, 2, 3]) // "Exif" + GPS, camera …
+const ICC = segment(0xe2, [7, 7, 7])
+const COMMENT = segment(0xfe, [0x68, 0x69])
+const IMAGE = [...segment(0xdb, [1, 2]), ...segment(0xda, [3]), 0x12, 0xff, 0xe1, 0x34, 0xff, 0xd9]
+
+describe('media', () => {
+  it('cuts EXIF and comments out of a JPEG and keeps the rest', () => {
+    const jpeg = Uint8Array.from([...SOI, ...JFIF, ...EXIF, ...ICC, ...COMMENT, ...IMAGE])
+    expect([...stripJpegMetadata(jpeg)]).toEqual([...SOI, ...JFIF, ...ICC, ...IMAGE])
+    expect(() => stripJpegMetadata(Uint8Array.from([0x89, 0x50]))).toThrow('Not a JPEG')
+  })
+
+  it('fits images within the longest side', () => {
+    expect(fitWithin(4000, 3000, 1600)).toEqual({ width: 1600, height: 1200 })
+    expect(fitWithin(1000, 3000, 1600)).toEqual({ width: 533, height: 1600 })
+    expect(fitWithin(800, 600, 1600)).toEqual({ width: 800, height: 600 })
+    expect(fitWithin(4000, 3000, null)).toEqual({ width: 4000, height: 3000 })
+  })
+
+  it('scales waveform peaks to the loudest bar', () => {
+    const samples = Float32Array.from({ length: 400 }, (_, i) => (i < 200 ? 0.1 : -0.4))
+    expect(waveformPeaks(samples, 4)).toEqual([8, 8, WAVEFORM_MAX, WAVEFORM_MAX])
+    expect(waveformPeaks(new Float32Array(100), 4)).toEqual([0, 0, 0, 0])
+  })
+
+  it('names re-encoded images after their format', () => {
+    expect(renameFor('IMG_0001.HEIC', 'image/jpeg')).toBe('IMG_0001.jpg')
+    expect(renameFor('screenshot.png', 'image/png')).toBe('screenshot.png')
+    expect(renameFor('animation.gif', 'image/gif')).toBe('animation.gif')
+  })
+
+  it('keeps only well-formed media fields from a peer', () => {
+    expect(mediaInfo({ width: 640, height: 480, thumb: 'data:image/jpeg;base64,AAAA', duration: 2.5 }))
+      .toEqual({ width: 640, height: 480, thumb: 'data:image/jpeg;base64,AAAA', duration: 2.5 })
+    expect(mediaInfo({
+      width: -1,
+      height: Infinity,
+      duration: '3',
+      thumb: 'javascript:alert(1)',
+      waveform: [1, 'x'],
+    })).toEqual({})
+    expect(mediaInfo({ waveform: [0.4, 7, 99, ...Array(60).fill(3)] }).waveform)
+      .toEqual([0, 7, WAVEFORM_MAX, ...Array(WAVEFORM_BARS - 3).fill(3)])
+  })
+
+  it('seals a payload built from a reactive attachment', () => {
+    // The composer's attachments are reactive; the worker gets a structured clone
+    const attachments = reactive([{ info: { duration: 1.5, waveform: [3, 9, 31] } as MediaInfo }])
+    expect(() => structuredClone({ ...attachments[0]!.info })).toThrow()
+
+    const payload: MessagePayload = {
+      attachments: attachments.map(a => ({ type: 'audio' as const, mime: 'audio/webm', data: 'AAAA', ...mediaInfo(toRaw(a.info)) })),
+    }
+    const request = structuredClone({ op: 'seal', payload })
+    const messageKey = new Uint8Array(32).fill(7)
+    const sealed = encryptMessage(messageKey, { dh: new Uint8Array(32), pn: 0, n: 0 }, request.payload)
+    expect(decryptMessage(messageKey, sealed)?.attachments?.[0]).toMatchObject({ duration: 1.5, waveform: [3, 9, 31] })
+  })
+})
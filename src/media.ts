@@ -0,0 +1,186 @@
+import { encodeBase64 } from 'tweetnacl-util'
+import type { Attachment } from './crypto'
+import { log } from './log'
+
+// ─── Types ───────────────────────────────────────────────────────
+
+// What the message list shows before an attachment itself has loaded
+export type MediaInfo = Pick<Attachment, 'width' | 'height' | 'thumb' | 'duration' | 'waveform'>
+
+export type ImageQuality = 'full' | 'large' | 'medium' | 'small'
+
+export const IMAGE_QUALITIES: Array<{ value: ImageQuality; label: string; maxDimension: number | null; quality: number }> = [
+  { value: 'full', label: 'Full size', maxDimension: null, quality: 0.92 },
+  { value: 'large', label: 'Large (2560 px)', maxDimension: 2560, quality: 0.85 },
+  { value: 'medium', label: 'Medium (1600 px)', maxDimension: 1600, quality: 0.8 },
+  { value: 'small', label: 'Small (1024 px)', maxDimension: 1024, quality: 0.75 },
+]
+
+export interface ProcessedImage {
+  blob: Blob
+  mime: string
+  info: MediaInfo
+}
+
+const THUMB_SIZE = 24        // px, longest side — drawn blurred, so tiny is enough
+const THUMB_QUALITY = 0.5
+export const WAVEFORM_BARS = 48
+export const WAVEFORM_MAX = 31 // levels are 0 … WAVEFORM_MAX
+
+// Re-encoded in their own format; anything else the browser decodes
+// (HEIC, AVIF, BMP …) becomes JPEG
+const KEEP_FORMAT = ['image/jpeg', 'image/png', 'image/webp']
+// Sent as they are: re-encoding would drop the animation or rasterize the
+// vector. Neither format carries EXIF.
+const PASS_THROUGH = ['image/gif', 'image/svg+xml']
+
+// Copies the media fields of an attachment into a plain object. Peers send
+// these, so a field that is out of shape is dropped rather than laid out or
+// rendered. The copy holds no reactive proxies and can be posted to the
+// crypto worker.
+export function mediaInfo(a: { [K in keyof MediaInfo]?: unknown }): MediaInfo {
+  const { width, height, thumb, duration, waveform } = a
+  const info: MediaInfo = {}
+  if (isMeasure(width)) info.width = width
+  if (isMeasure(height)) info.height = height
+  if (isMeasure(duration)) info.duration = duration
+  if (typeof thumb === 'string' && thumb.startsWith('data:image/')) info.thumb = thumb
+  if (Array.isArray(waveform) && waveform.every(isMeasure)) {
+    info.waveform = waveform.slice(0, WAVEFORM_BARS).map(level => Math.min(WAVEFORM_MAX, Math.round(level)))
+  }
+  return info
+}
+
+function isMeasure(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+}
+
+// ─── Images ──────────────────────────────────────────────────────
+// Photos carry EXIF: GPS position, camera, time taken. Drawing the decoded
+// pixels onto a canvas and encoding them again keeps nothing but the
+// pixels, and resizes on the way. The orientation tag is applied before it
+// is dropped, so the picture stays upright.
+
+export function fitWithin(width: number, height: number, max: number | null): { width: number; height: number } {
+  if (max === null || (width <= max && height <= max)) return { width, height }
+  const scale = max / Math.max(width, height)
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) }
+}
+
+export async function processImage(file: Blob, quality: ImageQuality): Promise<ProcessedImage> {
+  const setting = IMAGE_QUALITIES.find(q => q.value === quality) ?? IMAGE_QUALITIES[0]!
+  const passThrough = PASS_THROUGH.includes(file.type)
+
+  let bitmap: ImageBitmap
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' })
+  } catch (err) {
+    if (passThrough) return { blob: file, mime: file.type, info: {} }
+    // Not decodable here — a JPEG can still have its metadata cut out
+    if (file.type !== 'image/jpeg') throw err
+    log.warn('[Media] Could not decode JPEG — removing its metadata segments instead')
+    const bytes = stripJpegMetadata(new Uint8Array(await file.arrayBuffer()))
+    return { blob: new Blob([bytes as Uint8Array<ArrayBuffer>], { type: 'image/jpeg' }), mime: 'image/jpeg', info: {} }
+  }
+
+  try {
+    const thumbSize = fitWithin(bitmap.width, bitmap.height, THUMB_SIZE)
+    const thumbBlob = await render(bitmap, thumbSize.width, thumbSize.height, 'image/jpeg', THUMB_QUALITY)
+    const thumb = `data:image/jpeg;base64,${encodeBase64(new Uint8Array(await thumbBlob.arrayBuffer()))}`
+    if (passThrough) return { blob: file, mime: file.type, info: { width: bitmap.width, height: bitmap.height, thumb } }
+
+    const size = fitWithin(bitmap.width, bitmap.height, setting.maxDimension)
+    const mime = KEEP_FORMAT.includes(file.type) ? file.type : 'image/jpeg'
+    const blob = await render(bitmap, size.width, size.height, mime, setting.quality)
+    log.info(`[Media] Re-encoded ${file.type} ${bitmap.width}×${bitmap.height} (${file.size} bytes) → ${mime} ${size.width}×${size.height} (${blob.size} bytes)`)
+    return { blob, mime, info: { ...size, thumb } }
+  } finally {
+    bitmap.close()
+  }
+}
+
+async function render(bitmap: ImageBitmap, width: number, height: number, mime: string, quality: number): Promise<Blob> {
+  const canvas = typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(width, height)
+    : Object.assign(document.createElement('canvas'), { width, height })
+  const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null
+  if (!ctx) throw new Error('Canvas is not available')
+  // JPEG has no alpha — transparent areas would turn black
+  if (mime === 'image/jpeg') {
+    ctx.fillStyle = '#fff'
+    ctx.fillRect(0, 0, width, height)
+  }
+  ctx.imageSmoothingQuality = 'high'
+  ctx.drawImage(bitmap, 0, 0, width, height)
+
+  if (canvas instanceof HTMLCanvasElement) {
+    return new Promise((resolve, reject) => canvas.toBlob(
+      blob => blob ? resolve(blob) : reject(new Error(`Could not encode ${mime}`)), mime, quality))
+  }
+  return canvas.convertToBlob({ type: mime, quality })
+}
+
+// File name to go with a re-encoded image
+export function renameFor(name: string, mime: string): string {
+  const ext = { 'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp' }[mime]
+  if (!ext) return name
+  const base = name.replace(/\.[^.]*$/, '') || 'image'
+  return `${base}.${ext}`
+}
+
+// Drops APP1 (EXIF, XMP), APP13 (IPTC) and comment segments from a JPEG,
+// keeping JFIF, the ICC profile, Adobe's colour transform and the image
+// data. Only a fallback: the orientation tag goes with EXIF, so a rotated
+// photo may then show sideways.
+export function stripJpegMetadata(bytes: Uint8Array): Uint8Array {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) throw new Error('Not a JPEG')
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)]
+  let offset = 2
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) throw new Error('Malformed JPEG segment')
+    const marker = bytes[offset + 1]!
+    // Start of scan: entropy-coded data follows up to the end
+    if (marker === 0xda) break
+    const length = (bytes[offset + 2]! << 8) | bytes[offset + 3]!
+    const end = offset + 2 + length
+    if (length < 2 || end > bytes.length) throw new Error('Malformed JPEG segment')
+    if (marker !== 0xe1 && marker !== 0xed && marker !== 0xfe) kept.push(bytes.subarray(offset, end))
+    offset = end
+  }
+  kept.push(bytes.subarray(offset))
+
+  const out = new Uint8Array(kept.reduce((sum, k) => sum + k.length, 0))
+  let at = 0
+  for (const k of kept) {
+    out.set(k, at)
+    at += k.length
+  }
+  return out
+}
+
+// ─── Voice Notes ─────────────────────────────────────────────────
+// MediaRecorder's WebM has no duration in its header, so players show 0:00
+// until played through. Decoding the recording once gives the duration and
+// a waveform the message list draws without loading the audio.
+
+export function waveformPeaks(samples: Float32Array, bars = WAVEFORM_BARS): number[] {
+  const peaks = Array.from({ length: bars }, (_, i) => {
+    const start = Math.floor((i * samples.length) / bars)
+    const end = Math.floor(((i + 1) * samples.length) / bars)
+    let peak = 0
+    for (let j = start; j < end; j++) peak = Math.max(peak, Math.abs(samples[j]!))
+    return peak
+  })
+  const loudest = Math.max(...peaks)
+  return peaks.map(p => loudest > 0 ? Math.round((p / loudest) * WAVEFORM_MAX) : 0)
+}
+
+export async function analyzeVoiceNote(blob: Blob): Promise<MediaInfo> {
+  // A context that never plays: decoding needs no user gesture
+  const ctx = new OfflineAudioContext(1, 1, 44_100)
+  const buffer = await ctx.decodeAudioData(await blob.arrayBuffer())
+  return {
+    duration: Math.round(buffer.duration * 10) / 10,
+    waveform: waveformPeaks(buffer.getChannelData(0)),
+  }
+}
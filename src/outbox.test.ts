@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import nacl from 'tweetnacl'
+import { retryDelay, loadEntries, putEntry, type OutboxEntry } from './outbox'
+
+// Just enough IndexedDB for outbox.ts: one store whose requests apply at
+// once, and transactions that complete on the next tick
+const records = new Map<string, unknown>()
+
+function fakeIndexedDb() {
+  const store = {
+    getAll: () => ({ result: [...records.values()] }),
+    put: (record: { id: string }) => { records.set(record.id, structuredClone(record)) },
+    delete: (id: string) => { records.delete(id) },
+  }
+  const db = {
+    transaction: () => {
+      const tx: { oncomplete?: () => void; objectStore: () => typeof store } = { objectStore: () => store }
+      setTimeout(() => tx.oncomplete?.())
+      return tx
+    },
+    close: () => {},
+  }
+  return {
+    open: () => {
+      const req: { result: typeof db; onsuccess?: () => void } = { result: db }
+      setTimeout(() => req.onsuccess?.())
+      return req
+    },
+  }
+}
+
+vi.stubGlobal('indexedDB', fakeIndexedDb())
+vi.spyOn(console, 'log').mockImplementation(() => {})
+
+const key = nacl.randomBytes(nacl.secretbox.keyLength)
+
+const entry: OutboxEntry = {
+  id: 'm1',
+  conv: 'c1',
+  kind: 'relay',
+  envelopes: [{ s: 'alice', r: 'bob', d: 'ciphertext' }],
+  sent: 0,
+  status: 'pending',
+  attempts: 1,
+  nextAttempt: 0,
+}
+
+describe('outbox retry', () => {
+  it('waits 2s, then twice as long after every failure, up to 5 minutes', () => {
+    expect(retryDelay(0)).toBe(2_000)
+    expect(retryDelay(1)).toBe(2_000)
+    expect(retryDelay(2)).toBe(4_000)
+    expect(retryDelay(3)).toBe(8_000)
+    expect(retryDelay(8)).toBe(256_000)
+    expect(retryDelay(9)).toBe(300_000)
+    expect(retryDelay(50)).toBe(300_000)
+  })
+})
+
+describe('outbox storage', () => {
+  beforeEach(() => records.clear())
+
+  it('seals entries and reads them back', async () => {
+    await putEntry(key, entry)
+    expect(JSON.stringify(records.get('m1'))).not.toContain('ciphertext')
+    expect(await loadEntries(key)).toEqual([entry])
+  })
+
+  it('seals entries stored in the clear by older builds', async () => {
+    records.set('m1', entry)
+    expect(await loadEntries(key)).toEqual([entry])
+    expect(records.get('m1')).toHaveProperty('box')
+    expect(records.get('m1')).not.toHaveProperty('envelopes')
+    expect(await loadEntries(key)).toEqual([entry])
+  })
+
+  it('skips entries sealed with another storage key', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    await putEntry(nacl.randomBytes(nacl.secretbox.keyLength), entry)
+    expect(await loadEntries(key)).toEqual([])
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Entry m1 was sealed with another storage key'))
+    expect(records.has('m1')).toBe(true)
+  })
+})
@@ -0,0 +1,139 @@
+import nacl from 'tweetnacl'
+import type { Envelope } from './composables/useEnvelopes'
+import type { TransportKind } from './types/transport'
+import { log } from './log'
+
+// ─── Types ───────────────────────────────────────────────────────
+
+export type OutboxStatus = 'pending' | 'sending' | 'failed'
+
+// A message that was encrypted once and waits for its transport. The ratchet
+// has already advanced past it, so it is retried as-is and never re-encrypted.
+export interface OutboxEntry {
+  id: string              // message ID (MessagePayload.id)
+  conv: string            // conversation ID
+  kind: TransportKind     // transport chosen when the message was sent
+  envelopes: Envelope[]   // framed once, so a resumed send repeats the same chunks
+  sent: number            // envelopes already stored by the transport
+  status: OutboxStatus
+  attempts: number
+  nextAttempt: number     // epoch ms
+  error?: string
+  stored?: number         // history entry of the message, for status updates
+  rows?: Array<string | number> // stored rows, kept for disappearing messages (see expiry.ts)
+}
+
+// IndexedDB record — the entry sealed with the history's storage key. Queued
+// envelopes name sender and recipient by fingerprint: mailbox tags are only
+// applied when an envelope is written (see useEnvelopes.address), so a stored
+// entry shows more than a transport server sees.
+interface OutboxRecord {
+  id: string
+  nonce: Uint8Array
+  box: Uint8Array // nacl.secretbox(JSON OutboxEntry)
+}
+
+const DB_NAME = 'xchat-outbox'
+const DB_VERSION = 1
+const STORE = 'entries'
+
+const RETRY_BASE = 2_000
+const RETRY_MAX = 5 * 60 * 1000 // 5 minutes
+
+// ─── Database ────────────────────────────────────────────────────
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION)
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(STORE, { keyPath: 'id' })
+      }
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => {
+        dbPromise = null
+        reject(req.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+// ─── Retry ───────────────────────────────────────────────────────
+
+// Exponential backoff: 2s, 4s, 8s … capped at 5 minutes
+export function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE * 2 ** Math.max(attempts - 1, 0), RETRY_MAX)
+}
+
+// ─── Sealing ─────────────────────────────────────────────────────
+
+function seal(key: Uint8Array, entry: OutboxEntry): OutboxRecord {
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength)
+  return { id: entry.id, nonce, box: nacl.secretbox(new TextEncoder().encode(JSON.stringify(entry)), nonce, key) }
+}
+
+function open(key: Uint8Array, record: OutboxRecord): OutboxEntry | null {
+  const plainBytes = nacl.secretbox.open(record.box, record.nonce, key)
+  return plainBytes ? JSON.parse(new TextDecoder().decode(plainBytes)) : null
+}
+
+// ─── Read / Write ────────────────────────────────────────────────
+
+// Entries queued by builds that stored them in the clear are sealed on load
+export async function loadEntries(key: Uint8Array): Promise<OutboxEntry[]> {
+  const db = await openDb()
+  const tx = db.transaction(STORE, 'readonly')
+  const req = tx.objectStore(STORE).getAll()
+  await done(tx)
+
+  const entries: OutboxEntry[] = []
+  for (const record of req.result as Array<OutboxRecord | OutboxEntry>) {
+    if (!('box' in record)) {
+      entries.push(record)
+      await putEntry(key, record)
+      continue
+    }
+    const entry = open(key, record)
+    if (entry) entries.push(entry)
+    else log.warn(`[Outbox] Entry ${record.id} was sealed with another storage key — skipped`)
+  }
+  return entries
+}
+
+export async function putEntry(key: Uint8Array, entry: OutboxEntry): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(STORE, 'readwrite')
+  tx.objectStore(STORE).put(seal(key, entry))
+  await done(tx)
+}
+
+export async function removeEntry(id: string): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(STORE, 'readwrite')
+  tx.objectStore(STORE).delete(id)
+  await done(tx)
+}
+
+// Deletes the whole database (reset)
+export async function clearOutbox(): Promise<void> {
+  const db = dbPromise ? await dbPromise.catch(() => null) : null
+  db?.close()
+  dbPromise = null
+  await new Promise<void>((resolve, reject) => {
+    const req = indexedDB.deleteDatabase(DB_NAME)
+    req.onsuccess = () => resolve()
+    req.onerror = () => reject(req.error)
+    req.onblocked = () => resolve()
+  })
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import {
+  padme,
+  paddedLength,
+  encodePayload,
+  decodePayload,
+  UnsupportedPayloadError,
+  MIN_PADDED_LENGTH,
+  READ_FORMATS,
+  FORMAT_PADDED,
+} from './padding'
+
+const encoder = new TextEncoder()
+const json = (value: unknown) => encoder.encode(JSON.stringify(value))
+
+describe('padme', () => {
+  it('leaves small lengths alone and rounds large ones to a few buckets', () => {
+    expect([1, 2, 3, 5, 8].map(padme)).toEqual([1, 2, 3, 5, 8])
+    expect(padme(9)).toBe(10)
+    expect(padme(1000)).toBe(1024)
+    // Around 100 KB only the top 5 bits survive: 2 KB steps
+    const lengths = Array.from({ length: 10_000 }, (_, i) => paddedLength(100_000 + i))
+    expect(lengths.every(l => l % 2048 === 0)).toBe(true)
+    expect(new Set(lengths).size).toBe(6)
+  })
+
+  it('never adds more than 12%', () => {
+    for (let length = MIN_PADDED_LENGTH; length < 1 << 20; length = Math.ceil(length * 1.37)) {
+      const padded = padme(length)
+      expect(padded).toBeGreaterThanOrEqual(length)
+      expect(padded / length).toBeLessThanOrEqual(1.12)
+    }
+  })
+})
+
+describe('payload format', () => {
+  const payload = json({ id: 'm1', text: 'hello '.repeat(50) })
+
+  it('round-trips every combination of options', () => {
+    for (const compress of [false, true]) {
+      for (const pad of [false, true]) {
+        expect(decodePayload(encodePayload(payload, { compress, pad }, READ_FORMATS))).toEqual(payload)
+      }
+    }
+  })
+
+  it('hides the length of short messages in one bucket', () => {
+    const short = encodePayload(json({ text: 'hi' }), { compress: true, pad: true }, READ_FORMATS)
+    const longer = encodePayload(json({ text: 'see you tomorrow at the station' }), { compress: true, pad: true }, READ_FORMATS)
+    expect(short.length).toBe(MIN_PADDED_LENGTH)
+    expect(longer.length).toBe(MIN_PADDED_LENGTH)
+  })
+
+  it('only uses what the peer advertised', () => {
+    expect(encodePayload(payload, { compress: true, pad: true }, null)).toEqual(payload)
+    const padOnly = encodePayload(payload, { compress: true, pad: true }, FORMAT_PADDED)
+    expect(padOnly[1]).toBe(FORMAT_PADDED)
+    expect(padOnly.length).toBeGreaterThan(payload.length)
+  })
+
+  it('still reads bare JSON from older builds', () => {
+    expect(decodePayload(payload)).toBe(payload)
+  })
+
+  it('says when a payload comes from a newer build', () => {
+    expect(() => decodePayload(Uint8Array.of(2, 0, 0x7b, 0x7d))).toThrow(UnsupportedPayloadError)
+    expect(() => decodePayload(Uint8Array.of(1, 0x80, 0x7b, 0x7d))).toThrow('unknown payload options')
+  })
+
+  it('rejects a length that runs past the message', () => {
+    const padded = encodePayload(payload, { compress: false, pad: true }, READ_FORMATS)
+    new DataView(padded.buffer).setUint32(2, padded.length)
+    expect(() => decodePayload(padded)).toThrow('exceeds')
+  })
+})
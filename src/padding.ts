@@ -0,0 +1,111 @@
+import { deflateSync, inflateSync } from 'fflate'
+
+// ─── Padmé ───────────────────────────────────────────────────────
+// Rounds a length up so that only O(log log L) bits of it remain: at most
+// 12% overhead, and every length within a bucket looks the same. Small
+// messages all share one minimum bucket.
+
+export const MIN_PADDED_LENGTH = 256
+
+export function padme(length: number): number {
+  if (length < 2) return length
+  const e = Math.floor(Math.log2(length))
+  const s = Math.floor(Math.log2(e)) + 1
+  const mask = 2 ** (e - s) - 1
+  return Math.ceil(length / (mask + 1)) * (mask + 1)
+}
+
+export function paddedLength(length: number): number {
+  return padme(Math.max(length, MIN_PADDED_LENGTH))
+}
+
+// ─── Payload Format ──────────────────────────────────────────────
+// The sealed plaintext of a message. Legacy messages are bare JSON; newer
+// ones start with a version byte and a flags byte:
+//   version (1) | flags (1) | [length (uint32 BE)] | body | [zero padding]
+// The length is present when the body is padded. A legacy payload always
+// starts with `{`, which is never a valid version.
+
+export const PAYLOAD_VERSION = 1
+
+export const FORMAT_DEFLATE = 1 // body is raw DEFLATE of the JSON
+export const FORMAT_PADDED = 2  // body is followed by padding to a Padmé bucket
+
+// Flags this build can read — advertised as feature bits (see protocol.ts)
+export const READ_FORMATS = FORMAT_DEFLATE | FORMAT_PADDED
+
+export interface PayloadOptions {
+  compress: boolean
+  pad: boolean
+}
+
+export const DEFAULT_PAYLOAD_OPTIONS: PayloadOptions = { compress: true, pad: true }
+
+const LEGACY_MARKER = 0x7b // '{'
+const PREFIX_LENGTH = 2
+const LENGTH_BYTES = 4
+
+// Thrown for payloads from a newer build, so the caller can say so instead
+// of reporting a broken message
+export class UnsupportedPayloadError extends Error {
+  constructor(version: number, flags = 0) {
+    super(flags
+      ? `Message uses unknown payload options (0x${flags.toString(16)}) — update xchat to read it`
+      : `Message uses payload format v${version} — update xchat to read it`)
+    this.name = 'UnsupportedPayloadError'
+  }
+}
+
+// `peerFormats` are the flags the peer advertised; null means a legacy peer,
+// which gets bare JSON
+export function encodePayload(json: Uint8Array, options: PayloadOptions, peerFormats: number | null): Uint8Array {
+  if (peerFormats === null) return json
+
+  let flags = 0
+  let body = json
+  if (options.compress && peerFormats & FORMAT_DEFLATE) {
+    const deflated = deflateSync(json, { level: 9 })
+    // Short texts often grow when compressed
+    if (deflated.length < json.length) {
+      body = deflated
+      flags |= FORMAT_DEFLATE
+    }
+  }
+
+  if (!(options.pad && peerFormats & FORMAT_PADDED)) {
+    const out = new Uint8Array(PREFIX_LENGTH + body.length)
+    out.set([PAYLOAD_VERSION, flags])
+    out.set(body, PREFIX_LENGTH)
+    return out
+  }
+
+  flags |= FORMAT_PADDED
+  const unpadded = PREFIX_LENGTH + LENGTH_BYTES + body.length
+  const out = new Uint8Array(paddedLength(unpadded)) // zero-filled
+  out.set([PAYLOAD_VERSION, flags])
+  new DataView(out.buffer).setUint32(PREFIX_LENGTH, body.length)
+  out.set(body, PREFIX_LENGTH + LENGTH_BYTES)
+  return out
+}
+
+// Returns the JSON bytes; throws on malformed or unsupported payloads
+export function decodePayload(bytes: Uint8Array): Uint8Array {
+  if (bytes.length === 0) throw new Error('Empty payload')
+  if (bytes[0] === LEGACY_MARKER) return bytes
+
+  const version = bytes[0]!
+  if (version !== PAYLOAD_VERSION) throw new UnsupportedPayloadError(version)
+  if (bytes.length < PREFIX_LENGTH) throw new Error('Truncated payload header')
+  const flags = bytes[1]!
+  if (flags & ~READ_FORMATS) throw new UnsupportedPayloadError(version, flags & ~READ_FORMATS)
+
+  let body = bytes.subarray(PREFIX_LENGTH)
+  if (flags & FORMAT_PADDED) {
+    if (body.length < LENGTH_BYTES) throw new Error('Truncated payload length')
+    const length = new DataView(body.buffer, body.byteOffset).getUint32(0)
+    if (length > body.length - LENGTH_BYTES) throw new Error('Payload length exceeds message')
+    body = body.subarray(LENGTH_BYTES, LENGTH_BYTES + length)
+  }
+  if (flags & FORMAT_DEFLATE) body = inflateSync(body)
+  return body
+}
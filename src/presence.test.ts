@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import nacl from 'tweetnacl'
+import { mailboxKey, MAILBOX_EPOCH } from './mailbox'
+import { presenceTopic, presenceKey, sealPresence, openPresence, applyPresence, describePresence, TYPING_TIMEOUT } from './presence'
+
+const alice = nacl.box.keyPair()
+const bob = nacl.box.keyPair()
+const mailbox = mailboxKey(alice.secretKey, bob.publicKey)
+
+describe('presence', () => {
+  it('puts both sides on the same rotating topic', () => {
+    const now = Date.now()
+    expect(presenceTopic(mailboxKey(bob.secretKey, alice.publicKey), now)).toBe(presenceTopic(mailbox, now))
+    expect(presenceTopic(mailbox, now + MAILBOX_EPOCH)).not.toBe(presenceTopic(mailbox, now))
+  })
+
+  it('opens events only with the sender direction key', () => {
+    const now = Date.now()
+    const sealed = sealPresence(presenceKey(mailbox, 'alice'), { t: 'typing', at: now })
+    expect(openPresence(presenceKey(mailbox, 'alice'), sealed, now)).toEqual({ t: 'typing', at: now })
+    // Reflected back at its sender, it does not open with the peer's key
+    expect(openPresence(presenceKey(mailbox, 'bob'), sealed, now)).toBeNull()
+    expect(openPresence(presenceKey(mailbox, 'alice'), 'garbage', now)).toBeNull()
+  })
+
+  it('drops stale events', () => {
+    const key = presenceKey(mailbox, 'alice')
+    const sealed = sealPresence(key, { t: 'online', at: 0 })
+    expect(openPresence(key, sealed, 5 * 60_000)).toBeNull()
+  })
+
+  it('shows typing, then online, then last seen', () => {
+    const now = 1_000_000_000
+    const state = applyPresence({ online: false, lastSeen: null, typingUntil: 0 }, { t: 'typing', at: now }, now)
+    expect(describePresence(state, now)).toBe('typing…')
+    expect(describePresence(state, now + TYPING_TIMEOUT)).toBe('online')
+    const gone = applyPresence(state, { t: 'offline', at: now }, now)
+    expect(describePresence(gone, now + 5 * 60_000)).toBe('last seen 5m ago')
+  })
+})
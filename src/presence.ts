@@ -0,0 +1,88 @@
+import nacl from 'tweetnacl'
+import { encodeBase64, decodeBase64 } from 'tweetnacl-util'
+import { hmac } from '@noble/hashes/hmac.js'
+import { sha256 } from '@noble/hashes/sha2.js'
+import { mailboxEpoch } from './mailbox'
+
+// ─── Presence & Typing ───────────────────────────────────────────
+// Online, offline and typing events travel over a Realtime broadcast channel
+// and are never stored. The channel topic is derived from the pair's mailbox
+// key and rotates with the mailbox epoch, and every event is sealed with a key
+// for its sender's direction — so the server sees neither who shares a channel
+// nor what they send, and our own events cannot be reflected back at us.
+
+export type PresenceEventType = 'online' | 'offline' | 'typing'
+
+export interface PresenceEvent {
+  t: PresenceEventType
+  at: number // sender's clock, ms
+}
+
+export interface PeerPresence {
+  online: boolean
+  lastSeen: number | null // last event from the peer (our clock)
+  typingUntil: number
+}
+
+export const HEARTBEAT_INTERVAL = 30_000
+export const ONLINE_TIMEOUT = 75_000 // no heartbeat for this long counts as offline
+export const TYPING_TIMEOUT = 6_000  // typing shows this long after the last event
+export const TYPING_THROTTLE = 3_000 // at most one typing event per chat this often
+const MAX_AGE = 60_000               // events older than this (or from further ahead) are dropped
+
+const TOPIC_BYTES = 12
+const encoder = new TextEncoder()
+
+export function presenceTopic(mailbox: Uint8Array, now = Date.now()): string {
+  const mac = hmac(sha256, mailbox, encoder.encode(`xchat-presence-topic|${mailboxEpoch(now)}`))
+  return 'xchat-' + encodeBase64(mac.subarray(0, TOPIC_BYTES)).replace(/\+/g, '-').replace(/\//g, '_')
+}
+
+// `sender` is the fingerprint of whoever seals with the key
+export function presenceKey(mailbox: Uint8Array, sender: string): Uint8Array {
+  return hmac(sha256, mailbox, encoder.encode(`xchat-presence-key|${sender}`))
+}
+
+export function sealPresence(key: Uint8Array, event: PresenceEvent): string {
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength)
+  const box = nacl.secretbox(encoder.encode(JSON.stringify(event)), nonce, key)
+  const sealed = new Uint8Array(nonce.length + box.length)
+  sealed.set(nonce)
+  sealed.set(box, nonce.length)
+  return encodeBase64(sealed)
+}
+
+// Null for anything that is not a fresh event sealed with the key
+export function openPresence(key: Uint8Array, data: unknown, now = Date.now()): PresenceEvent | null {
+  if (typeof data !== 'string') return null
+  try {
+    const sealed = decodeBase64(data)
+    const opened = nacl.secretbox.open(sealed.subarray(nacl.secretbox.nonceLength), sealed.subarray(0, nacl.secretbox.nonceLength), key)
+    if (!opened) return null
+    const event = JSON.parse(new TextDecoder().decode(opened)) as PresenceEvent
+    if (!['online', 'offline', 'typing'].includes(event.t) || typeof event.at !== 'number') return null
+    return Math.abs(now - event.at) <= MAX_AGE ? event : null
+  } catch {
+    return null
+  }
+}
+
+export function applyPresence(state: PeerPresence, event: PresenceEvent, now = Date.now()): PeerPresence {
+  switch (event.t) {
+    case 'online': return { ...state, online: true, lastSeen: now }
+    case 'offline': return { online: false, lastSeen: now, typingUntil: 0 }
+    case 'typing': return { online: true, lastSeen: now, typingUntil: now + TYPING_TIMEOUT }
+  }
+}
+
+// What the chat header shows: typing…, online, last seen …, or nothing yet
+export function describePresence(state: PeerPresence | undefined, now = Date.now()): string {
+  if (!state || state.lastSeen === null) return ''
+  if (state.typingUntil > now) return 'typing…'
+  if (state.online && now - state.lastSeen < ONLINE_TIMEOUT) return 'online'
+  const ago = Math.max(now - state.lastSeen, 0)
+  if (ago < 60_000) return 'last seen just now'
+  if (ago < 3_600_000) return `last seen ${Math.floor(ago / 60_000)}m ago`
+  if (ago < 86_400_000) return `last seen ${Math.floor(ago / 3_600_000)}h ago`
+  return `last seen ${new Date(state.lastSeen).toLocaleDateString()}`
+}
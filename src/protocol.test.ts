@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest'
+import nacl from 'tweetnacl'
+import { encodeHandshakeCode, decodeHandshakeCode, encodeBase64, decodeBase64, generateKeyPair } from './crypto'
+import { RatchetSession } from './ratchet'
+import {
+  migrateSession,
+  compatibility,
+  hasFeature,
+  OUR_CAPABILITIES,
+  LEGACY_CAPABILITIES,
+  PROTOCOL_VERSION,
+  SESSION_VERSION,
+  FEATURE_PADDED,
+} from './protocol'
+
+vi.spyOn(console, 'log').mockImplementation(() => {})
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+const identity = nacl.box.keyPair().publicKey
+const ephemeral = nacl.box.keyPair().publicKey
+
+describe('handshake code', () => {
+  it('carries our protocol version and features', () => {
+    const peer = decodeHandshakeCode(encodeHandshakeCode(identity, ephemeral))
+    expect(peer.identity).toEqual(identity)
+    expect(peer.ephemeral).toEqual(ephemeral)
+    expect(peer.caps).toEqual(OUR_CAPABILITIES)
+  })
+
+  it('reads codes from builds before versioning as legacy', () => {
+    const old = new Uint8Array(64)
+    old.set(identity)
+    old.set(ephemeral, 32)
+    expect(decodeHandshakeCode(encodeBase64(old)).caps).toEqual(LEGACY_CAPABILITIES)
+  })
+
+  it('accepts a newer peer and ignores what it appends', () => {
+    const newer = decodeBase64(encodeHandshakeCode(identity, ephemeral, { v: PROTOCOL_VERSION + 1, f: 0xff }))
+    const code = decodeHandshakeCode(encodeBase64(Uint8Array.from([...newer, 1, 2, 3])))
+    expect(code.ephemeral).toEqual(ephemeral)
+    expect(code.caps).toEqual({ v: PROTOCOL_VERSION + 1, f: 0xff })
+    expect(compatibility(code.caps)).toBe('we-outdated')
+  })
+
+  it('rejects truncated codes', () => {
+    const bytes = nacl.randomBytes(66)
+    expect(() => decodeHandshakeCode(encodeBase64(bytes))).toThrow('Invalid handshake code')
+  })
+})
+
+describe('capabilities', () => {
+  it('start from the handshake and follow the peer\'s messages', () => {
+    const aliceId = generateKeyPair()
+    const bobId = generateKeyPair()
+    const aliceEph = generateKeyPair()
+    const bobEph = generateKeyPair()
+    const alice = RatchetSession.fromHandshake(aliceId, aliceEph, { identity: bobId.publicKey, ephemeral: bobEph.publicKey, caps: LEGACY_CAPABILITIES })
+    const bob = RatchetSession.fromHandshake(bobId, bobEph, { identity: aliceId.publicKey, ephemeral: aliceEph.publicKey, caps: OUR_CAPABILITIES })
+
+    expect(hasFeature(alice.peerCapabilities, FEATURE_PADDED)).toBe(false)
+    expect(alice.decrypt(bob.encrypt({ text: 'hi' }).ciphertext)).toEqual({ text: 'hi' })
+    expect(alice.peerCapabilities).toEqual(OUR_CAPABILITIES)
+    expect(hasFeature(alice.peerCapabilities, FEATURE_PADDED)).toBe(true)
+  })
+})
+
+describe('migrateSession', () => {
+  const v2 = { v: 2, kp: { pub: 'a', sec: 'b' }, peer: 'c', rk: 'd', cm: 'manual' }
+
+  it('upgrades a v2 session, keeping advertised payload formats', () => {
+    expect(migrateSession({ ...v2, pf: 3 })).toEqual({ ...v2, v: SESSION_VERSION, pc: { v: 0, f: 3 } })
+    expect(migrateSession(v2)).toEqual({ ...v2, v: SESSION_VERSION })
+  })
+
+  it('leaves a current session alone', () => {
+    const current = { ...v2, v: SESSION_VERSION, pc: OUR_CAPABILITIES }
+    expect(migrateSession(current)).toBe(current)
+  })
+
+  it('explains what to do with sessions it cannot open', () => {
+    expect(() => migrateSession({ ...v2, v: SESSION_VERSION + 1 })).toThrow('newer version of XChat')
+    expect(() => migrateSession({ ...v2, v: 1 })).toThrow('older version of XChat')
+    expect(() => migrateSession({ v: SESSION_VERSION })).toThrow('Invalid session format')
+    expect(() => migrateSession('nope')).toThrow('Invalid session format')
+    expect(() => migrateSession({ ...v2, v: 2.5 })).toThrow('Invalid session format')
+  })
+})
@@ -0,0 +1,99 @@
+import { FORMAT_DEFLATE, FORMAT_PADDED } from './padding'
+import type { SessionData } from './types/session'
+import { log } from './log'
+
+// ─── Protocol Version ────────────────────────────────────────────
+// The version is bumped only for changes an older build cannot read; things
+// a peer can simply do without are feature bits. Version 0 is every build
+// before versioning: mailbox tags, envelope MACs, receipts, groups and
+// stored files are all part of it.
+
+export const PROTOCOL_VERSION = 1
+export const MIN_PEER_VERSION = 0 // oldest version we still talk to
+
+// ─── Features ────────────────────────────────────────────────────
+// Bits a peer advertises in its handshake code and in every pairwise
+// message. The payload format bits keep the values of padding.ts, which
+// builds before versioning already advertised the same way.
+
+export const FEATURE_DEFLATE = FORMAT_DEFLATE
+export const FEATURE_PADDED = FORMAT_PADDED
+
+export const FEATURES = FEATURE_DEFLATE | FEATURE_PADDED
+
+export interface Capabilities {
+  v: number // protocol version
+  f: number // feature bits
+}
+
+export const OUR_CAPABILITIES: Capabilities = { v: PROTOCOL_VERSION, f: FEATURES }
+
+// What we know of a peer that never advertised anything
+export const LEGACY_CAPABILITIES: Capabilities = { v: 0, f: 0 }
+
+export function hasFeature(caps: Capabilities | null, feature: number): boolean {
+  return caps !== null && (caps.f & feature) === feature
+}
+
+export type Compatibility = 'ok' | 'peer-outdated' | 'we-outdated'
+
+export function compatibility(caps: Capabilities | null): Compatibility {
+  if (!caps) return 'ok'
+  if (caps.v < MIN_PEER_VERSION) return 'peer-outdated'
+  if (caps.v > PROTOCOL_VERSION) return 'we-outdated'
+  return 'ok'
+}
+
+// ─── Session Migrations ──────────────────────────────────────────
+// Stored and exported sessions are upgraded one version at a time, so a file
+// written by any supported build opens in this one. Each step takes the
+// previous version's JSON and returns the next.
+
+export const SESSION_VERSION = 3
+
+// A v2 session: the peer's payload formats (`pf`) instead of capabilities
+interface SessionV2 extends Omit<SessionData, 'v' | 'pc'> {
+  v: 2
+  pf?: number
+}
+
+// The stored shape of each version we can still open, and the version each
+// one's step leads to
+interface SessionVersions {
+  2: SessionV2
+  3: SessionData
+}
+interface NextVersion {
+  2: 3
+}
+type StoredSession = SessionVersions[keyof SessionVersions]
+
+const MIGRATIONS: { [V in keyof NextVersion]: (data: SessionVersions[V]) => SessionVersions[NextVersion[V]] } = {
+  // v2 → v3: the payload formats a peer advertised (`pf`) became its
+  // capabilities (`pc`) — with protocol version 0, as they predate it
+  2: ({ pf, ...data }) => ({ ...data, v: 3, ...(typeof pf === 'number' && { pc: { v: 0, f: pf } }) }),
+}
+
+// Throws with a message fit for the user when the session cannot be opened
+export function migrateSession(data: unknown): SessionData {
+  const session = data as { v?: unknown } | null
+  if (!session || typeof session !== 'object' || typeof session.v !== 'number' || !Number.isInteger(session.v)) {
+    throw new Error('Invalid session format')
+  }
+  if (session.v > SESSION_VERSION) {
+    throw new Error(`This session was saved by a newer version of XChat (format v${session.v}) — update XChat to open it`)
+  }
+  if (session.v < 2) {
+    throw new Error('This session was created by an older version of XChat and cannot be resumed — start a new chat')
+  }
+
+  // The version is known from here on; the fields are checked at the end
+  let migrated = session as StoredSession
+  while (migrated.v !== SESSION_VERSION) {
+    const from = migrated.v
+    migrated = MIGRATIONS[from](migrated)
+    log.info(`[Session] Migrated session format v${from} → v${migrated.v}`)
+  }
+  if (!migrated.kp || !migrated.peer || !migrated.rk) throw new Error('Invalid session format')
+  return migrated
+}
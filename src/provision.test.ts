@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import { provisioningSql, joinSql, probeBackend, ProvisionError, type ProbeCheck, type ProbeResult } from './provision'
+import type { DbSettings } from './types/db'
+
+const settings: DbSettings = {
+  url: '',
+  anonKey: '',
+  table: 'messages',
+  column: 'payload',
+  idColumn: 'id',
+  senderColumn: 'sender',
+  bucket: '',
+  pollInterval: 30000,
+}
+
+describe('provisioning SQL', () => {
+  it('creates the table, mailbox index and policies for the configured names', () => {
+    const sql = joinSql(provisioningSql({ ...settings, table: 'chat_rows', column: 'body', senderColumn: 'tag' }))
+    expect(sql).toContain('CREATE TABLE IF NOT EXISTS public."chat_rows"')
+    expect(sql).toContain('"body" TEXT NOT NULL')
+    expect(sql).toContain('ON public."chat_rows" ("tag", "id")')
+    expect(sql).toContain('ALTER PUBLICATION supabase_realtime ADD TABLE public."chat_rows"')
+    expect(sql).toMatch(/AS RESTRICTIVE FOR INSERT[\s\S]*"tag" ~ '\^\[A-Za-z0-9_-\]\{16\}\$'/)
+  })
+
+  it('never allows updates to rows', () => {
+    const sql = joinSql(provisioningSql(settings))
+    expect(sql).not.toMatch(/FOR (UPDATE|ALL)[^;]*public\."messages"|public\."messages"[^;]*FOR (UPDATE|ALL)/)
+    expect(sql).not.toMatch(/GRANT[^;]*UPDATE[^;]*"messages"/)
+  })
+
+  it('warns that anyone with the anon key can delete rows', () => {
+    const sql = joinSql(provisioningSql(settings))
+    expect(sql).toMatch(/-- WARNING: Anyone with the anon key can delete any row[^\n]*\n[^\n]*"xchat_messages_delete"/)
+  })
+
+  it('adds a bucket and skips the mailbox index only when configured so', () => {
+    const ids = (s: Partial<DbSettings>) => provisioningSql({ ...settings, ...s }).map(section => section.id)
+    expect(ids({})).not.toContain('storage')
+    expect(ids({ bucket: 'attachments' })).toContain('storage')
+    expect(joinSql(provisioningSql({ ...settings, senderColumn: '' }))).not.toContain('mailbox_idx')
+  })
+
+  it('refuses names that would break out of the SQL', () => {
+    expect(() => provisioningSql({ ...settings, table: 'messages"; DROP TABLE users; --' })).toThrow(ProvisionError)
+    expect(() => provisioningSql({ ...settings, column: 'a b' })).toThrow(ProvisionError)
+    expect(() => provisioningSql({ ...settings, bucket: "x'); DELETE FROM storage.objects; --" })).toThrow(ProvisionError)
+  })
+})
+
+// ─── Stubbed Backend ─────────────────────────────────────────────
+// Answers the probe's queries the way PostgREST, Realtime and Storage do for a
+// backend missing one piece of the setup.
+
+interface StubOptions {
+  insertGrant?: boolean   // without it the insert is refused
+  deletePolicy?: boolean  // without it RLS hides every row from the delete
+  realtime?: boolean      // without it the subscription is refused
+  bucket?: boolean        // without it uploads fail
+}
+
+type Row = Record<string, unknown>
+type Answer = { data: Row[] | null; error: { message: string; code?: string } | null }
+
+function stubClient(options: StubOptions = {}): SupabaseClient {
+  const { insertGrant = true, deletePolicy = true, realtime = true, bucket = true } = options
+  const rows = new Map<number, Row>()
+  let nextId = 1
+  let onInsert: ((payload: { new: Row }) => void) | null = null
+
+  function from() {
+    let op: 'select' | 'insert' | 'update' | 'delete' = 'select'
+    let row: Row = {}
+    let pk: number | undefined
+    const answer = (): Answer => {
+      switch (op) {
+        case 'insert': {
+          if (!insertGrant) return { data: null, error: { message: 'permission denied for table messages', code: '42501' } }
+          const id = nextId++
+          rows.set(id, row)
+          onInsert?.({ new: { ...row, id } })
+          return { data: [{ id }], error: null }
+        }
+        case 'update': return { data: [], error: null } // no update policy: nothing matches
+        case 'delete': return { data: deletePolicy && pk !== undefined && rows.delete(pk) ? [{ id: pk }] : [], error: null }
+        case 'select': return { data: pk === undefined ? [] : rows.has(pk) ? [{ id: pk }] : [], error: null }
+      }
+    }
+    const query = {
+      select: () => query,
+      limit: () => query,
+      insert: (r: Row) => { op = 'insert'; row = r; return query },
+      update: () => { op = 'update'; return query },
+      delete: () => { op = 'delete'; return query },
+      eq: (_column: string, value: unknown) => { pk = Number(value); return query },
+      then: <T>(resolve: (a: Answer) => T, reject: (e: unknown) => T) => Promise.resolve(answer()).then(resolve, reject),
+    }
+    return query
+  }
+
+  function channel() {
+    let handler: ((payload: { new: Row }) => void) | null = null
+    const ch = {
+      on: (_event: string, _filter: unknown, callback: (payload: { new: Row }) => void) => { handler = callback; return ch },
+      subscribe: (callback: (status: string) => void) => {
+        if (realtime) onInsert = handler
+        queueMicrotask(() => callback(realtime ? 'SUBSCRIBED' : 'CHANNEL_ERROR'))
+        return ch
+      },
+    }
+    return ch
+  }
+
+  const storage = {
+    from: () => ({
+      upload: async (path: string) => bucket
+        ? { data: { path }, error: null }
+        : { data: null, error: { message: 'Bucket not found' } },
+      download: async () => ({ data: new Blob(), error: null }),
+      remove: async (paths: string[]) => ({ data: paths.map(name => ({ name })), error: null }),
+    }),
+  }
+
+  return {
+    from,
+    rpc: async () => ({ data: [], error: null }),
+    channel,
+    removeChannel: async () => { onInsert = null; return 'ok' },
+    storage,
+  } as unknown as SupabaseClient
+}
+
+async function probeStub(options: StubOptions, overrides: Partial<DbSettings> = {}): Promise<Map<ProbeCheck, ProbeResult>> {
+  const results = await probeBackend(stubClient(options), { ...settings, ...overrides }, { realtimeTimeout: 50 })
+  return new Map(results.map(r => [r.check, r]))
+}
+
+describe('backend probe on a stubbed client', () => {
+  it('passes every check when nothing is missing', async () => {
+    const results = await probeStub({}, { bucket: 'attachments' })
+    expect([...results.values()].filter(r => r.status !== 'ok')).toEqual([])
+  })
+
+  it('reports a missing insert grant and skips the checks that need a row', async () => {
+    const results = await probeStub({ insertGrant: false })
+    expect(results.get('insert')).toMatchObject({ status: 'missing', fix: 'policies' })
+    expect(results.get('insert')?.detail).toContain('Not permitted')
+    for (const check of ['select', 'realtime', 'update', 'delete'] as const) {
+      expect(results.get(check)?.status).toBe('skipped')
+    }
+  })
+
+  it('reports a missing delete policy and the row it leaves behind', async () => {
+    const results = await probeStub({ deletePolicy: false })
+    expect(results.get('delete')).toMatchObject({ status: 'missing', fix: 'policies' })
+    expect(results.get('delete')?.detail).toContain('id=1 is left behind')
+    expect(results.get('insert')?.status).toBe('ok')
+  })
+
+  it('reports Realtime as unavailable and falls back to polling', async () => {
+    const results = await probeStub({ realtime: false })
+    expect(results.get('realtime')).toMatchObject({ status: 'warning', fix: 'realtime' })
+    expect(results.get('realtime')?.detail).toContain('Subscription refused')
+    expect(results.get('delete')?.status).toBe('ok')
+  })
+
+  it('reports a missing bucket', async () => {
+    const results = await probeStub({ bucket: false }, { bucket: 'attachments' })
+    expect(results.get('storage')).toMatchObject({ status: 'missing', fix: 'storage' })
+    expect(results.get('storage')?.detail).toContain('Upload failed: Bucket not found')
+  })
+})
+
+// Against a local stack with the SQL above applied, e.g. `supabase start`:
+// XCHAT_TEST_SUPABASE_URL=http://127.0.0.1:54321 XCHAT_TEST_SUPABASE_KEY=<anon key> npm test
+const url = import.meta.env.XCHAT_TEST_SUPABASE_URL as string | undefined
+const anonKey = import.meta.env.XCHAT_TEST_SUPABASE_KEY as string | undefined
+
+describe.skipIf(!url || !anonKey)('backend probe', () => {
+  it('passes every check on a provisioned backend', async () => {
+    const client = createClient(url!, anonKey!, { auth: { persistSession: false } })
+    const results = await probeBackend(client, { ...settings, url: url!, anonKey: anonKey! })
+    await client.removeAllChannels()
+    const failed = results.filter(r => r.status === 'missing')
+    expect(failed, JSON.stringify(failed)).toEqual([])
+    expect(results.find(r => r.check === 'update')?.status).toBe('ok')
+  }, 30_000)
+})
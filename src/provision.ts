@@ -0,0 +1,368 @@
+import nacl from 'tweetnacl'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { DbSettings } from './types/db'
+import { CHUNK_SIZE } from './composables/useEnvelopes'
+import { TAG_LENGTH } from './mailbox'
+
+// ─── Backend Provisioning ────────────────────────────────────────
+// The SQL a Supabase project needs for the settings in the panel, and a probe
+// that checks a running backend against it. Rows are ciphertext under rotating
+// mailbox tags, so reading the table reveals little; the policies keep the
+// anon key to what the app does — insert envelopes, read them, delete them —
+// and refuse updates and rows that do not look like an envelope. Deletes are
+// not tied to a row's parties: anyone holding the anon key can empty the table.
+
+// Shown above the delete policies and in the settings panel
+export const DELETE_WARNING = 'Anyone with the anon key can delete any row, not only their own: share the key only with people you trust not to wipe undelivered messages.'
+
+// Room for a chunk's envelope fields (tag, MAC, message ID) around its data
+const MAX_ROW_LENGTH = CHUNK_SIZE + 1024
+const ROLES = 'anon, authenticated'
+
+export type SqlSectionId = 'table' | 'policies' | 'realtime' | 'helpers' | 'storage'
+
+export interface SqlSection {
+  id: SqlSectionId
+  title: string
+  sql: string
+}
+
+// A table, column or bucket name that cannot be put in SQL as is
+export class ProvisionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProvisionError'
+  }
+}
+
+type SchemaSettings = Pick<DbSettings, 'table' | 'column' | 'idColumn' | 'senderColumn' | 'bucket'>
+
+function identifier(name: string, label: string): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_]{0,62}$/.test(name)) {
+    throw new ProvisionError(`${label} "${name}" must be letters, digits and underscores`)
+  }
+  return `"${name}"`
+}
+
+// ─── SQL ─────────────────────────────────────────────────────────
+// Every statement can be run again: tables and buckets are created if
+// missing, policies and functions are replaced.
+
+export function provisioningSql(settings: SchemaSettings): SqlSection[] {
+  const table = identifier(settings.table || 'messages', 'Table name')
+  const column = identifier(settings.column || 'payload', 'Message column')
+  const id = identifier(settings.idColumn || 'id', 'ID column')
+  const sender = settings.senderColumn ? identifier(settings.senderColumn, 'Mailbox column') : null
+  const name = table.slice(1, -1)
+  const qualified = `public.${table}`
+  const sections: SqlSection[] = []
+
+  sections.push({
+    id: 'table',
+    title: 'Messages table',
+    sql: [
+      `CREATE TABLE IF NOT EXISTS ${qualified} (`,
+      `  ${id} BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,`,
+      `  ${column} TEXT NOT NULL${sender ? ',' : ''}`,
+      ...(sender ? [`  ${sender} TEXT NOT NULL -- rotating mailbox tag`] : []),
+      `);`,
+      ...(sender ? [
+        '',
+        '-- Polls ask for a list of tags, oldest row first',
+        `CREATE INDEX IF NOT EXISTS "${name}_mailbox_idx" ON ${qualified} (${sender}, ${id});`,
+      ] : []),
+    ].join('\n'),
+  })
+
+  const insertCheck = [`octet_length(${column}) <= ${MAX_ROW_LENGTH}`]
+  if (sender) insertCheck.push(`${sender} ~ '^[A-Za-z0-9_-]{${TAG_LENGTH}}$'`)
+  sections.push({
+    id: 'policies',
+    title: 'Permissions and row-level security',
+    sql: [
+      '-- Read, insert and delete only; nobody can rewrite a row',
+      `REVOKE ALL ON ${qualified} FROM ${ROLES};`,
+      `GRANT SELECT, DELETE ON ${qualified} TO ${ROLES};`,
+      `GRANT INSERT (${[column, sender].filter(Boolean).join(', ')}) ON ${qualified} TO ${ROLES};`,
+      '',
+      `ALTER TABLE ${qualified} ENABLE ROW LEVEL SECURITY;`,
+      ...policy(`${name}_read`, qualified, 'FOR SELECT', 'USING (true)'),
+      ...policy(`${name}_write`, qualified, 'FOR INSERT', 'WITH CHECK (true)'),
+      `-- WARNING: ${DELETE_WARNING}`,
+      ...policy(`${name}_delete`, qualified, 'FOR DELETE', 'USING (true)'),
+      '',
+      '-- Every row must look like an envelope: bounded size and a mailbox tag',
+      ...policy(`${name}_envelope`, qualified, 'AS RESTRICTIVE FOR INSERT', `WITH CHECK (\n    ${insertCheck.join('\n    AND ')}\n  )`),
+    ].join('\n'),
+  })
+
+  sections.push({
+    id: 'realtime',
+    title: 'Realtime (instant delivery; polling is the fallback)',
+    sql: [
+      'DO $$',
+      'BEGIN',
+      "  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')",
+      "    AND NOT EXISTS (SELECT 1 FROM pg_publication_tables",
+      `      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = '${name}')`,
+      '  THEN',
+      `    ALTER PUBLICATION supabase_realtime ADD TABLE ${qualified};`,
+      '  END IF;',
+      'END $$;',
+    ].join('\n'),
+  })
+
+  sections.push({
+    id: 'helpers',
+    title: 'Table and column lists for the settings panel (optional)',
+    sql: [
+      '-- Run as the caller, so they list only what the anon key can use',
+      'CREATE OR REPLACE FUNCTION public.list_tables()',
+      'RETURNS TABLE(table_name text)',
+      "LANGUAGE sql STABLE SECURITY INVOKER SET search_path = '' AS $$",
+      '  SELECT t.table_name::text FROM information_schema.tables t',
+      "  WHERE t.table_schema = 'public' AND t.table_type = 'BASE TABLE'",
+      '  ORDER BY 1',
+      '$$;',
+      '',
+      'CREATE OR REPLACE FUNCTION public.list_columns(p_table text)',
+      'RETURNS TABLE(column_name text)',
+      "LANGUAGE sql STABLE SECURITY INVOKER SET search_path = '' AS $$",
+      '  SELECT c.column_name::text FROM information_schema.columns c',
+      "  WHERE c.table_schema = 'public' AND c.table_name = p_table",
+      '  ORDER BY c.ordinal_position',
+      '$$;',
+      '',
+      'REVOKE EXECUTE ON FUNCTION public.list_tables(), public.list_columns(text) FROM PUBLIC;',
+      `GRANT EXECUTE ON FUNCTION public.list_tables(), public.list_columns(text) TO ${ROLES};`,
+    ].join('\n'),
+  })
+
+  if (settings.bucket) {
+    if (!/^[A-Za-z0-9][A-Za-z0-9._-]{0,62}$/.test(settings.bucket)) {
+      throw new ProvisionError(`Bucket name "${settings.bucket}" must be letters, digits, dots, dashes and underscores`)
+    }
+    const bucket = `'${settings.bucket}'`
+    const inBucket = `bucket_id = ${bucket}`
+    sections.push({
+      id: 'storage',
+      title: 'Private bucket for large attachments',
+      sql: [
+        `INSERT INTO storage.buckets (id, name, public) VALUES (${bucket}, ${bucket}, false)`,
+        '  ON CONFLICT (id) DO NOTHING;',
+        '',
+        '-- Objects are encrypted chunks under random names; uploads may overwrite (retries)',
+        ...policy(`${settings.bucket}_read`, 'storage.objects', 'FOR SELECT', `USING (${inBucket})`),
+        ...policy(`${settings.bucket}_write`, 'storage.objects', 'FOR INSERT', `WITH CHECK (${inBucket})`),
+        ...policy(`${settings.bucket}_overwrite`, 'storage.objects', 'FOR UPDATE', `USING (${inBucket}) WITH CHECK (${inBucket})`),
+        '-- WARNING: likewise, anyone with the anon key can delete any object in the bucket',
+        ...policy(`${settings.bucket}_delete`, 'storage.objects', 'FOR DELETE', `USING (${inBucket})`),
+      ].join('\n'),
+    })
+  }
+
+  return sections
+}
+
+function policy(name: string, target: string, kind: string, rule: string): string[] {
+  return [
+    `DROP POLICY IF EXISTS "xchat_${name}" ON ${target};`,
+    `CREATE POLICY "xchat_${name}" ON ${target} ${kind} TO ${ROLES}\n  ${rule};`,
+  ]
+}
+
+// The whole script, with a comment line per section
+export function joinSql(sections: SqlSection[]): string {
+  return sections.map(s => `-- ─── ${s.title} ───\n${s.sql}`).join('\n\n') + '\n'
+}
+
+// ─── Backend Probe ───────────────────────────────────────────────
+// Writes one throwaway row under a random tag, reads it back, waits for its
+// Realtime event, tries to rewrite it and deletes it. With a mailbox column no
+// chat ever fetches the row; without one, running clients may see and reject it.
+
+export type ProbeCheck = 'table' | 'helpers' | 'insert' | 'select' | 'realtime' | 'update' | 'delete' | 'storage'
+export type ProbeStatus = 'ok' | 'warning' | 'missing' | 'skipped'
+
+export interface ProbeResult {
+  check: ProbeCheck
+  status: ProbeStatus
+  detail: string
+  fix?: SqlSectionId // the SQL section that sets it up
+}
+
+export const PROBE_LABELS: Record<ProbeCheck, string> = {
+  table: 'Table and columns',
+  helpers: 'Table/column lists',
+  insert: 'Insert',
+  select: 'Select',
+  realtime: 'Realtime',
+  update: 'Updates refused',
+  delete: 'Delete',
+  storage: 'Storage bucket',
+}
+
+const REALTIME_TIMEOUT = 8000
+
+export async function probeBackend(
+  client: SupabaseClient,
+  settings: DbSettings,
+  options: { realtimeTimeout?: number; onResult?: (result: ProbeResult) => void } = {},
+): Promise<ProbeResult[]> {
+  const results: ProbeResult[] = []
+  const report = (result: ProbeResult) => {
+    results.push(result)
+    options.onResult?.(result)
+  }
+
+  const { table, column, idColumn, senderColumn } = settings
+  const columns = [idColumn, column, senderColumn].filter(Boolean).join(', ')
+
+  // Table and columns
+  const { error: tableError } = await client.from(table).select(columns).limit(1)
+  if (tableError) {
+    report({ check: 'table', status: 'missing', detail: describeError(tableError), fix: 'table' })
+    skipRest(report, ['helpers', 'insert', 'select', 'realtime', 'update', 'delete'], 'Needs the table')
+  } else {
+    report({ check: 'table', status: 'ok', detail: `${table} (${columns})` })
+
+    const { error: rpcError } = await client.rpc('list_tables')
+    report(rpcError
+      ? { check: 'helpers', status: 'warning', detail: 'Not installed — type table and column names by hand', fix: 'helpers' }
+      : { check: 'helpers', status: 'ok', detail: 'list_tables() and list_columns() answer' })
+
+    await probeRows(client, settings, options.realtimeTimeout ?? REALTIME_TIMEOUT, report)
+  }
+
+  if (settings.bucket) await probeStorage(client, settings.bucket, report)
+  else report({ check: 'storage', status: 'skipped', detail: 'No bucket configured — attachments are sent inline' })
+
+  return results
+}
+
+async function probeRows(client: SupabaseClient, settings: DbSettings, timeout: number, report: (r: ProbeResult) => void) {
+  const { table, column, idColumn, senderColumn } = settings
+  const tag = probeTag()
+  const row: Record<string, string> = { [column]: JSON.stringify({ s: tag, d: '' }) }
+  if (senderColumn) row[senderColumn] = tag
+
+  // Subscribed before the insert, so its event has something to arrive at
+  const realtime = listen(client, settings, tag, timeout)
+  const subscribed = await realtime.subscribed
+
+  const { data: inserted, error: insertError } = await client.from(table).insert(row).select(idColumn)
+  const pk = (inserted as Record<string, any>[] | null)?.[0]?.[idColumn]
+  if (insertError) {
+    report({ check: 'insert', status: 'missing', detail: describeError(insertError), fix: 'policies' })
+    realtime.close()
+    skipRest(report, ['select', 'realtime', 'update', 'delete'], 'Needs a row to work with')
+    return
+  }
+  if (pk === undefined) {
+    report({ check: 'insert', status: 'warning', detail: 'Inserted, but the row ID was not returned — disappearing messages cannot withdraw rows', fix: 'policies' })
+    realtime.close()
+    skipRest(report, ['select', 'realtime', 'update', 'delete'], 'Needs the probe row ID')
+    return
+  }
+  report({ check: 'insert', status: 'ok', detail: `Probe row ${idColumn}=${pk}` })
+
+  const { data: selected, error: selectError } = await client.from(table).select(idColumn).eq(idColumn, pk)
+  report(selectError || !selected?.length
+    ? { check: 'select', status: 'missing', detail: selectError ? describeError(selectError) : 'The probe row is not readable', fix: 'policies' }
+    : { check: 'select', status: 'ok', detail: 'The probe row reads back' })
+
+  if (subscribed !== 'SUBSCRIBED') {
+    const reason = subscribed === 'CHANNEL_ERROR' ? 'Subscription refused' : subscribed === 'CLOSED' ? 'Channel closed' : 'No answer'
+    report({ check: 'realtime', status: 'warning', detail: `${reason} — messages arrive by polling`, fix: 'realtime' })
+  } else if (await realtime.received(pk)) {
+    report({ check: 'realtime', status: 'ok', detail: 'The insert arrived over Realtime' })
+  } else {
+    report({ check: 'realtime', status: 'warning', detail: 'Subscribed, but no insert event — is the table in the supabase_realtime publication?', fix: 'realtime' })
+  }
+  realtime.close()
+
+  const { data: updated, error: updateError } = await client.from(table).update({ [column]: row[column] }).eq(idColumn, pk).select(idColumn)
+  report(!updateError && updated?.length
+    ? { check: 'update', status: 'warning', detail: 'Anyone with the anon key can rewrite rows', fix: 'policies' }
+    : { check: 'update', status: 'ok', detail: 'Rows cannot be rewritten' })
+
+  const { data: deleted, error: deleteError } = await client.from(table).delete().eq(idColumn, pk).select(idColumn)
+  if (deleteError || !deleted?.length) {
+    const detail = deleteError ? describeError(deleteError) : 'Nothing was deleted — received rows would stay on the server'
+    report({ check: 'delete', status: 'missing', detail: `${detail} (probe row ${idColumn}=${pk} is left behind)`, fix: 'policies' })
+  } else {
+    report({ check: 'delete', status: 'ok', detail: 'The probe row is gone' })
+  }
+}
+
+function skipRest(report: (r: ProbeResult) => void, checks: ProbeCheck[], reason: string) {
+  for (const check of checks) report({ check, status: 'skipped', detail: reason })
+}
+
+async function probeStorage(client: SupabaseClient, bucket: string, report: (r: ProbeResult) => void) {
+  const path = `xchat-probe-${probeTag()}`
+  const storage = client.storage.from(bucket)
+  const { error: uploadError } = await storage.upload(path, new Blob([nacl.randomBytes(16) as Uint8Array<ArrayBuffer>]), { contentType: 'application/octet-stream' })
+  if (uploadError) {
+    report({ check: 'storage', status: 'missing', detail: `Upload failed: ${uploadError.message}`, fix: 'storage' })
+    return
+  }
+  const { error: downloadError } = await storage.download(path)
+  const { data: removed, error: removeError } = await storage.remove([path])
+  if (downloadError) {
+    report({ check: 'storage', status: 'missing', detail: `Download failed: ${downloadError.message}`, fix: 'storage' })
+  } else if (removeError || !removed?.length) {
+    report({ check: 'storage', status: 'missing', detail: `Delete failed: ${removeError?.message ?? 'nothing was removed'} (${path} is left behind)`, fix: 'storage' })
+  } else {
+    report({ check: 'storage', status: 'ok', detail: `Upload, download and delete in "${bucket}"` })
+  }
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────
+
+// Shaped like a mailbox tag, so the envelope policy accepts it
+function probeTag(): string {
+  return Array.from(nacl.randomBytes(TAG_LENGTH), b => 'abcdefghijklmnopqrstuvwxyz0123456789'[b % 36]).join('')
+}
+
+function describeError(error: { message: string; code?: string }): string {
+  switch (error.code) {
+    case '42P01':
+    case 'PGRST205': return `Table not found (${error.message})`
+    case '42703': return `Column missing (${error.message})`
+    case '42501': return `Not permitted (${error.message})`
+    default: return error.message
+  }
+}
+
+function listen(client: SupabaseClient, settings: DbSettings, tag: string, timeout: number) {
+  const { table, idColumn, senderColumn } = settings
+  const seen = new Set<string>()
+  const channel = client
+    .channel(`xchat-probe-${tag}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table, ...(senderColumn ? { filter: `${senderColumn}=eq.${tag}` } : {}) },
+      (payload) => { seen.add(String((payload.new as Record<string, any>)[idColumn])) },
+    )
+
+  const subscribed = new Promise<string>((resolve) => {
+    const timer = setTimeout(() => resolve('TIMED_OUT'), timeout)
+    channel.subscribe((status) => {
+      if (status === 'SUBSCRIBED' || status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+        clearTimeout(timer)
+        resolve(status)
+      }
+    })
+  })
+
+  async function received(pk: string | number): Promise<boolean> {
+    const deadline = Date.now() + timeout
+    while (!seen.has(String(pk)) && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 100))
+    }
+    return seen.has(String(pk))
+  }
+
+  return { subscribed, received, close: () => { client.removeChannel(channel) } }
+}
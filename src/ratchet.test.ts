@@ -0,0 +1,227 @@
+import { describe, it, expect, vi } from 'vitest'
+import { generateKeyPair, decodeBase64, encodeBase64, inlineCipher, type MessageCipher } from './crypto'
+import { RatchetSession, MAX_SKIP } from './ratchet'
+
+// crypto.ts logs every stage
+vi.spyOn(console, 'log').mockImplementation(() => {})
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+// Runs the handshake for two parties and returns both sessions
+function pair(): [RatchetSession, RatchetSession] {
+  const aliceId = generateKeyPair()
+  const bobId = generateKeyPair()
+  const aliceEph = generateKeyPair()
+  const bobEph = generateKeyPair()
+  return [
+    RatchetSession.fromHandshake(aliceId, aliceEph, { identity: bobId.publicKey, ephemeral: bobEph.publicKey }),
+    RatchetSession.fromHandshake(bobId, bobEph, { identity: aliceId.publicKey, ephemeral: aliceEph.publicKey }),
+  ]
+}
+
+function send(from: RatchetSession, text: string): string {
+  return from.encrypt({ text }).ciphertext
+}
+
+// Holds every open() until release(), like a worker that is still busy
+function heldCipher() {
+  let release!: () => void
+  let started!: () => void
+  const held = new Promise<void>(r => { release = r })
+  const opening = new Promise<void>(r => { started = r })
+  const cipher: MessageCipher = {
+    ...inlineCipher,
+    async open(messageKey, encoded) {
+      started()
+      await held
+      return inlineCipher.open(messageKey, encoded)
+    },
+  }
+  return { cipher, opening, release }
+}
+
+function tamper(ciphertext: string, index: number): string {
+  const bytes = decodeBase64(ciphertext)
+  bytes[index]! ^= 1
+  return encodeBase64(bytes)
+}
+
+describe('RatchetSession', () => {
+  it('lets both sides send right after the handshake', () => {
+    const [alice, bob] = pair()
+    const fromAlice = send(alice, 'hi bob')
+    const fromBob = send(bob, 'hi alice')
+    expect(bob.decrypt(fromAlice)).toEqual({ text: 'hi bob' })
+    expect(alice.decrypt(fromBob)).toEqual({ text: 'hi alice' })
+  })
+
+  it('keeps a long back-and-forth conversation in sync', () => {
+    const [alice, bob] = pair()
+    for (let round = 0; round < 5; round++) {
+      for (let i = 0; i < 3; i++) {
+        expect(bob.decrypt(send(alice, `a${round}.${i}`))).toEqual({ text: `a${round}.${i}` })
+      }
+      expect(alice.decrypt(send(bob, `b${round}`))).toEqual({ text: `b${round}` })
+    }
+    expect(alice.sendCount).toBe(15)
+    expect(bob.recvCount).toBe(15)
+    expect(alice.recvCount).toBe(5)
+  })
+
+  it('starts a new ratchet key after each reply', () => {
+    const [alice, bob] = pair()
+    const first = decodeBase64(send(alice, '1')).slice(0, 32)
+    bob.decrypt(send(alice, '2'))
+    alice.decrypt(send(bob, 'reply'))
+    const third = decodeBase64(send(alice, '3')).slice(0, 32)
+    expect(encodeBase64(third)).not.toBe(encodeBase64(first))
+  })
+
+  it('decrypts late and reordered messages across ratchet steps', () => {
+    const [alice, bob] = pair()
+    const m1 = send(alice, 'm1')
+    const m2 = send(alice, 'm2')
+    const m3 = send(alice, 'm3')
+    expect(bob.decrypt(m3)).toEqual({ text: 'm3' })
+
+    alice.decrypt(send(bob, 'reply'))
+    const m4 = send(alice, 'm4')
+    expect(bob.decrypt(m4)).toEqual({ text: 'm4' })
+
+    expect(bob.decrypt(m1)).toEqual({ text: 'm1' })
+    expect(bob.decrypt(m2)).toEqual({ text: 'm2' })
+  })
+
+  it('rejects replays', () => {
+    const [alice, bob] = pair()
+    const m1 = send(alice, 'once')
+    expect(bob.decrypt(m1)).toEqual({ text: 'once' })
+    expect(bob.decrypt(m1)).toBeNull()
+  })
+
+  it('rejects tampered ciphertexts without changing state', () => {
+    const [alice, bob] = pair()
+    const m1 = send(alice, 'secret')
+    const before = bob.serialize()
+
+    expect(bob.decrypt(tamper(m1, decodeBase64(m1).length - 1))).toBeNull() // ciphertext
+    expect(bob.decrypt(tamper(m1, 36))).toBeNull() // header n
+    expect(bob.decrypt(tamper(m1, 0))).toBeNull()  // header ratchet key
+    expect(bob.decrypt('not a message')).toBeNull()
+    expect(bob.serialize()).toEqual(before)
+
+    expect(bob.decrypt(m1)).toEqual({ text: 'secret' })
+  })
+
+  it('refuses to skip more than MAX_SKIP messages', () => {
+    const [alice, bob] = pair()
+    for (let i = 0; i <= MAX_SKIP; i++) alice.encrypt({})
+    expect(bob.decrypt(send(alice, 'too far'))).toBeNull()
+  })
+
+  it('does not count receipts as messages', () => {
+    const [alice, bob] = pair()
+    bob.decrypt(alice.encrypt({ id: 'm1', text: 'hi' }).ciphertext)
+    const receipt = bob.encrypt({ receipt: { t: 'read', ids: ['m1'] } }).ciphertext
+    expect(alice.decrypt(receipt)).toEqual({ receipt: { t: 'read', ids: ['m1'] } })
+    expect(bob.decrypt(send(alice, 'after receipt'))).toEqual({ text: 'after receipt' })
+    expect(alice.decrypt(send(bob, 'reply'))).toEqual({ text: 'reply' })
+    expect([alice.sendCount, alice.recvCount, bob.sendCount, bob.recvCount]).toEqual([2, 1, 1, 2])
+  })
+
+  it('does not count edits, deletions and reactions as messages', () => {
+    const [alice, bob] = pair()
+    bob.decrypt(alice.encrypt({ id: 'm1', text: 'hi' }).ciphertext)
+    const actions = [
+      { t: 'react', id: 'm1', e: '\u{1F44D}' },
+      { t: 'edit', id: 'm1', text: 'hello' },
+      { t: 'delete', id: 'm1' },
+    ] as const
+    for (const action of actions) expect(bob.decrypt(alice.encrypt({ action }).ciphertext)).toEqual({ action })
+    expect([alice.sendCount, bob.recvCount]).toEqual([1, 1])
+  })
+
+  it('survives serialize and restore', () => {
+    let [alice, bob] = pair()
+    const late = send(alice, 'late')
+    bob.decrypt(send(alice, 'first'))
+    alice.decrypt(send(bob, 'reply'))
+
+    alice = RatchetSession.restore(JSON.parse(JSON.stringify(alice.serialize())))
+    bob = RatchetSession.restore(JSON.parse(JSON.stringify(bob.serialize())))
+
+    expect(bob.decrypt(send(alice, 'after restore'))).toEqual({ text: 'after restore' })
+    expect(bob.decrypt(late)).toEqual({ text: 'late' })
+    expect(alice.decrypt(send(bob, 'and back'))).toEqual({ text: 'and back' })
+  })
+
+  it('rolls back an undelivered message', () => {
+    const [alice, bob] = pair()
+    const before = alice.serialize()
+    alice.encrypt({ text: 'lost' }).rollback()
+    expect(alice.serialize()).toEqual(before)
+    expect(bob.decrypt(send(alice, 'retry'))).toEqual({ text: 'retry' })
+  })
+
+  it('ignores a rollback after a reply started a new chain', () => {
+    const [alice, bob] = pair()
+    bob.decrypt(send(alice, 'hello'))
+    const { rollback } = alice.encrypt({ text: 'lost' })
+    alice.decrypt(send(bob, 'reply'))
+    const after = alice.serialize()
+    rollback()
+    expect(alice.serialize()).toEqual(after)
+    expect(bob.decrypt(send(alice, 'next'))).toEqual({ text: 'next' })
+  })
+
+  it('opens concurrent receives one after another', async () => {
+    const [alice, bob] = pair()
+    const { cipher, opening, release } = heldCipher()
+    const first = bob.decryptWith(cipher, send(alice, '1'))
+    const second = bob.decryptWith(cipher, send(alice, '2'))
+    await opening
+    release()
+    expect(await Promise.all([first, second])).toEqual([{ text: '1' }, { text: '2' }])
+    expect(bob.decrypt(send(alice, '3'))).toEqual({ text: '3' })
+  })
+
+  it('counts messages sent while a ratcheting receive is in flight', async () => {
+    const [alice, bob] = pair()
+    alice.decrypt(send(bob, 'hi'))
+    const { cipher, opening, release } = heldCipher()
+    // Alice's reply carries a new ratchet key, so Bob starts a new chain
+    const receiving = bob.decryptWith(cipher, send(alice, 'new key'))
+    await opening
+    const meanwhile = send(bob, 'sent on the old chain')
+    release()
+    expect(await receiving).toEqual({ text: 'new key' })
+    // pn of the new chain covers the message sent meanwhile
+    expect(alice.decrypt(send(bob, 'on the new chain'))).toEqual({ text: 'on the new chain' })
+    expect(alice.decrypt(meanwhile)).toEqual({ text: 'sent on the old chain' })
+  })
+
+  it('rolls back when the cipher fails', async () => {
+    const [alice, bob] = pair()
+    const before = alice.serialize()
+    const failing: MessageCipher = { ...inlineCipher, seal: () => Promise.reject(new Error('worker gone')) }
+    await expect(alice.encryptWith(failing, { text: 'lost' })).rejects.toThrow('worker gone')
+    expect(alice.serialize()).toEqual(before)
+    const { ciphertext } = await alice.encryptWith(inlineCipher, { text: 'retry' })
+    expect(await bob.decryptWith(inlineCipher, ciphertext)).toEqual({ text: 'retry' })
+  })
+
+  it('pads messages once the peer advertised support', () => {
+    const [alice, bob] = pair()
+    // Alice has not heard from Bob yet, so her first message is bare JSON
+    const first = send(alice, 'hi')
+    expect(bob.decrypt(first)).toEqual({ text: 'hi' })
+    expect(bob.peerFormats()).not.toBeNull()
+
+    const short = send(bob, 'ok')
+    const longer = send(bob, 'see you tomorrow at the station')
+    expect(decodeBase64(short).length).toBe(decodeBase64(longer).length)
+    expect(decodeBase64(short).length).toBeGreaterThan(decodeBase64(first).length)
+    expect(alice.decrypt(short)).toEqual({ text: 'ok' })
+    expect(alice.decrypt(longer)).toEqual({ text: 'see you tomorrow at the station' })
+    expect(alice.serialize().pc).toEqual(bob.serialize().pc)
+  })
+})
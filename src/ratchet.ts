@@ -0,0 +1,394 @@
+import {
+  generateKeyPair,
+  computeHandshakeSecret,
+  deriveChainKeys,
+  deriveRootKey,
+  compareKeys,
+  keysEqual,
+  ratchetStep,
+  rootRatchet,
+  encryptMessage,
+  decryptMessage,
+  parseMessageHeader,
+  skippedKeyId,
+  isControlPayload,
+  encodeBase64,
+  decodeBase64,
+  type KeyPair,
+  type MessageHeader,
+  type MessagePayload,
+  type MessageCipher,
+  type CryptoProgress,
+} from './crypto'
+import { READ_FORMATS, DEFAULT_PAYLOAD_OPTIONS, type PayloadOptions } from './padding'
+import { PROTOCOL_VERSION, FEATURES, LEGACY_CAPABILITIES, type Capabilities } from './protocol'
+import type { RatchetData, SerializedKeyPair } from './types/session'
+import { log } from './log'
+
+export const MAX_SKIP = 1000          // max keys derived ahead within a single chain
+export const MAX_SKIPPED_KEYS = 2000  // total keys kept per conversation
+
+// ─── Key Pair Encoding ───────────────────────────────────────────
+
+export function serializeKeyPair(kp: KeyPair): SerializedKeyPair {
+  return { pub: encodeBase64(kp.publicKey), sec: encodeBase64(kp.secretKey) }
+}
+
+export function restoreKeyPair(data: SerializedKeyPair): KeyPair {
+  return { publicKey: decodeBase64(data.pub), secretKey: decodeBase64(data.sec) }
+}
+
+// ─── Types ───────────────────────────────────────────────────────
+
+export interface EncryptResult {
+  ciphertext: string
+  header: MessageHeader
+  // Undoes the send-chain step when the message could not be delivered
+  rollback: () => void
+}
+
+// ─── Ratchet Session ─────────────────────────────────────────────
+// One conversation's Double Ratchet state, free of any UI or storage. Used by
+// the web app and the CLI alike; both persist it through serialize()/restore().
+
+export class RatchetSession {
+  // Identity keys (from handshake)
+  readonly identity: KeyPair
+  readonly peerIdentity: Uint8Array
+
+  // DH ratchet keys
+  private rootKey: Uint8Array
+  private ratchetKeyPair: KeyPair
+  private peerRatchetKey: Uint8Array
+
+  // Chain keys (symmetric ratchet)
+  private sendChain: Uint8Array
+  private recvChain: Uint8Array
+
+  // Message header counters (reset on every DH ratchet step)
+  private sendIndex: number      // n of the next message we send on the current chain
+  private recvIndex: number      // n of the next message we expect on the current chain
+  private prevSendLength: number // length of our previous sending chain (pn)
+
+  // Message keys for messages that were skipped (lost, delayed or reordered).
+  // Insertion order is age, so the oldest entry is evicted first.
+  private skippedKeys: Map<string, Uint8Array>
+
+  // Chat messages sent and received; control messages are not counted
+  sendCount: number
+  recvCount: number
+
+  // Protocol version and features the peer advertised in its handshake code
+  // and in its latest message (see protocol.ts); null for a session from
+  // before versioning that has not heard from the peer since
+  peerCapabilities: Capabilities | null
+
+  // Receives in flight through decryptWith(), and how many have committed
+  private receiving: Promise<unknown> = Promise.resolve()
+  private revision = 0
+
+  private constructor(data: RatchetData) {
+    this.identity = restoreKeyPair(data.kp)
+    this.peerIdentity = decodeBase64(data.peer)
+    this.rootKey = decodeBase64(data.rk)
+    this.ratchetKeyPair = restoreKeyPair(data.rkp)
+    this.peerRatchetKey = decodeBase64(data.rp)
+    this.sendChain = decodeBase64(data.sc)
+    this.recvChain = decodeBase64(data.rc)
+    this.sendIndex = data.ns
+    this.recvIndex = data.nr
+    this.prevSendLength = data.pn
+    this.skippedKeys = new Map(data.sk.map(([id, key]) => [id, decodeBase64(key)]))
+    this.sendCount = data.sn
+    this.recvCount = data.rn
+    this.peerCapabilities = data.pc ?? null
+  }
+
+  // ─── Handshake ─────────────────────────────────────────────
+  // The peer's ephemeral key is their first ratchet key, so the initial recv
+  // chain decrypts whatever they send before ratcheting. The side with the
+  // smaller ephemeral key ratchets right away; the other side keeps its
+  // ephemeral key until it sees that first new ratchet key. This keeps the
+  // root chain in lockstep and lets both sides send immediately.
+
+  static fromHandshake(
+    identity: KeyPair,
+    ephemeral: KeyPair,
+    peer: { identity: Uint8Array; ephemeral: Uint8Array; caps?: Capabilities }
+  ): RatchetSession {
+    const shared = computeHandshakeSecret(identity, ephemeral, peer.identity, peer.ephemeral)
+    const chains = deriveChainKeys(shared, ephemeral.publicKey, peer.ephemeral)
+    let rootKey = deriveRootKey(shared)
+    let sendChain = chains.sendChain
+    let ratchetKeyPair = ephemeral
+
+    if (compareKeys(ephemeral.publicKey, peer.ephemeral) < 0) {
+      ratchetKeyPair = generateKeyPair()
+      const next = rootRatchet(rootKey, ratchetKeyPair.secretKey, peer.ephemeral)
+      rootKey = next.rootKey
+      sendChain = next.chainKey
+    }
+
+    return new RatchetSession({
+      kp: serializeKeyPair(identity),
+      peer: encodeBase64(peer.identity),
+      rk: encodeBase64(rootKey),
+      sc: encodeBase64(sendChain),
+      rc: encodeBase64(chains.recvChain),
+      rkp: serializeKeyPair(ratchetKeyPair),
+      rp: encodeBase64(peer.ephemeral),
+      ns: 0,
+      nr: 0,
+      pn: 0,
+      sk: [],
+      sn: 0,
+      rn: 0,
+      pc: peer.caps,
+    })
+  }
+
+  // ─── Persistence ───────────────────────────────────────────
+
+  static restore(data: RatchetData): RatchetSession {
+    return new RatchetSession(data)
+  }
+
+  serialize(): RatchetData {
+    return {
+      kp: serializeKeyPair(this.identity),
+      peer: encodeBase64(this.peerIdentity),
+      rk: encodeBase64(this.rootKey),
+      sc: encodeBase64(this.sendChain),
+      rc: encodeBase64(this.recvChain),
+      rkp: serializeKeyPair(this.ratchetKeyPair),
+      rp: encodeBase64(this.peerRatchetKey),
+      ns: this.sendIndex,
+      nr: this.recvIndex,
+      pn: this.prevSendLength,
+      sk: [...this.skippedKeys].map(([id, key]) => [id, encodeBase64(key)]),
+      sn: this.sendCount,
+      rn: this.recvCount,
+      ...(this.peerCapabilities && { pc: this.peerCapabilities }),
+    }
+  }
+
+  // ─── Send ──────────────────────────────────────────────────
+  // Advances the sending chain; the DH ratchet happens when the peer replies.
+  // Every message advertises the payload formats we read.
+
+  encrypt(payload: MessagePayload, options: PayloadOptions = DEFAULT_PAYLOAD_OPTIONS): EncryptResult {
+    const send = this.nextSend(payload)
+    try {
+      const ciphertext = encryptMessage(send.messageKey, send.header, send.payload, options, this.peerFormats())
+      return { ciphertext, header: send.header, rollback: send.rollback }
+    } catch (err) {
+      send.rollback()
+      throw err
+    }
+  }
+
+  // Like encrypt(), with the sealing done by `cipher` (e.g. in a worker). The
+  // chain moves before the first await, so messages encrypted meanwhile get
+  // the next indices and a reply that arrives meanwhile counts this one in pn.
+  async encryptWith(
+    cipher: MessageCipher,
+    payload: MessagePayload,
+    options: PayloadOptions = DEFAULT_PAYLOAD_OPTIONS,
+    onProgress?: CryptoProgress
+  ): Promise<EncryptResult> {
+    const send = this.nextSend(payload)
+    try {
+      const ciphertext = await cipher.seal(send.messageKey, send.header, send.payload, options, this.peerFormats(), onProgress)
+      return { ciphertext, header: send.header, rollback: send.rollback }
+    } catch (err) {
+      send.rollback()
+      throw err
+    }
+  }
+
+  private nextSend(payload: MessagePayload) {
+    const prev = { sendChain: this.sendChain, sendIndex: this.sendIndex, sendCount: this.sendCount }
+
+    // 1. Symmetric ratchet → message key
+    const { nextChainKey, messageKey } = ratchetStep(this.sendChain)
+
+    // 2. Header: our current ratchet key + position in the sending chain
+    const header: MessageHeader = {
+      dh: this.ratchetKeyPair.publicKey,
+      pn: this.prevSendLength,
+      n: this.sendIndex,
+    }
+
+    this.sendChain = nextChainKey
+    this.sendIndex = header.n + 1
+    if (!isControlPayload(payload)) this.sendCount++
+
+    const rollback = () => {
+      // A reply that arrived in the meantime may have started a new sending
+      // chain — the unsent key then belongs to a chain that is already gone
+      if (this.sendChain !== nextChainKey) return
+      this.sendChain = prev.sendChain
+      this.sendIndex = prev.sendIndex
+      this.sendCount = prev.sendCount
+    }
+
+    return { messageKey, header, payload: { ...payload, pv: PROTOCOL_VERSION, pf: FEATURES }, rollback }
+  }
+
+  // ─── Receive ───────────────────────────────────────────────
+  // The header tells us which chain and index the message belongs to: keys
+  // for skipped messages are kept so late or reordered messages still decrypt.
+  // All state changes are made on local copies and committed only after the
+  // ciphertext authenticates.
+
+  decrypt(encoded: string): MessagePayload | null {
+    const receive = this.planReceive(encoded)
+    if (!receive) return null
+    const payload = decryptMessage(receive.messageKey, encoded)
+    return payload && receive.commit(payload)
+  }
+
+  // Like decrypt(), with the opening done by `cipher` (e.g. in a worker).
+  // Receives run one at a time: each one derives its key from the state the
+  // previous one committed. Sends may interleave freely.
+  decryptWith(cipher: MessageCipher, encoded: string, onProgress?: CryptoProgress): Promise<MessagePayload | null> {
+    const run = this.receiving.then(async () => {
+      const receive = this.planReceive(encoded)
+      if (!receive) return null
+      const payload = await cipher.open(receive.messageKey, encoded, onProgress)
+      return payload && receive.commit(payload)
+    })
+    this.receiving = run.catch(() => {})
+    return run
+  }
+
+  // Derives the message key without changing any state; commit() applies
+  // the state changes once the payload has authenticated
+  private planReceive(encoded: string): { messageKey: Uint8Array; commit: (payload: MessagePayload) => MessagePayload } | null {
+    const header = parseMessageHeader(encoded)
+    if (!header) {
+      log.error('[Recv] Malformed message header')
+      return null
+    }
+    log.debug(`[Recv] Header: pn=${header.pn} n=${header.n}`)
+    const revision = this.revision
+
+    // 1. Message key already derived for a skipped message?
+    const id = skippedKeyId(header.dh, header.n)
+    const storedKey = this.skippedKeys.get(id)
+    if (storedKey) {
+      return {
+        messageKey: storedKey,
+        commit: (payload) => {
+          this.checkRevision(revision)
+          this.skippedKeys.delete(id)
+          if (!isControlPayload(payload)) this.recvCount++
+          log.debug(`[Recv] Decrypted late message with stored key (${this.skippedKeys.size} left)`)
+          return this.learnCapabilities(payload)
+        },
+      }
+    }
+
+    let rk = this.rootKey
+    let ckr = this.recvChain
+    let nr = this.recvIndex
+    let dhr = this.peerRatchetKey
+    let ratchet: { ratchetKeyPair: KeyPair; sendChain: Uint8Array } | null = null
+    const newSkipped: [string, Uint8Array][] = []
+
+    const skipUntil = (until: number) => {
+      if (until - nr > MAX_SKIP) throw new Error(`Too many skipped messages (${until - nr})`)
+      while (nr < until) {
+        const { nextChainKey, messageKey } = ratchetStep(ckr)
+        newSkipped.push([skippedKeyId(dhr, nr), messageKey])
+        ckr = nextChainKey
+        nr++
+      }
+    }
+
+    try {
+      // 2. New ratchet key from peer → store rest of old chain, then DH ratchet step
+      if (!keysEqual(header.dh, dhr)) {
+        skipUntil(header.pn)
+        log.debug('[Recv] New peer ratchet key — performing DH ratchet step')
+        dhr = header.dh
+        ;({ rootKey: rk, chainKey: ckr } = rootRatchet(rk, this.ratchetKeyPair.secretKey, dhr))
+        nr = 0
+        const ratchetKeyPair = generateKeyPair()
+        let sendChain: Uint8Array
+        ;({ rootKey: rk, chainKey: sendChain } = rootRatchet(rk, ratchetKeyPair.secretKey, dhr))
+        ratchet = { ratchetKeyPair, sendChain }
+      } else if (header.n < nr) {
+        log.error(`[Recv] Duplicate or replayed message (n=${header.n})`)
+        return null
+      }
+
+      // 3. Store keys for messages skipped in the current chain
+      skipUntil(header.n)
+    } catch (err: any) {
+      log.error(`[Recv] ${err.message}`)
+      return null
+    }
+
+    // 4. Symmetric ratchet → message key
+    const { nextChainKey, messageKey } = ratchetStep(ckr)
+
+    // 5. Authenticated — commit new state
+    const commit = (payload: MessagePayload) => {
+      this.checkRevision(revision)
+      this.rootKey = rk
+      this.recvChain = nextChainKey
+      this.recvIndex = nr + 1
+      this.peerRatchetKey = dhr
+      if (ratchet) {
+        // Read now, not when the key was derived: messages sent while this
+        // one was being opened belong to the chain that ends here
+        this.prevSendLength = this.sendIndex
+        this.ratchetKeyPair = ratchet.ratchetKeyPair
+        this.sendChain = ratchet.sendChain
+        this.sendIndex = 0
+      }
+      if (!isControlPayload(payload)) this.recvCount++
+
+      for (const [skipId, key] of newSkipped) this.skippedKeys.set(skipId, key)
+      while (this.skippedKeys.size > MAX_SKIPPED_KEYS) {
+        this.skippedKeys.delete(this.skippedKeys.keys().next().value!)
+      }
+      if (newSkipped.length > 0) {
+        log.debug(`[Recv] Stored ${newSkipped.length} skipped message key(s) (${this.skippedKeys.size} total)`)
+      }
+
+      return this.learnCapabilities(payload)
+    }
+
+    return { messageKey, commit }
+  }
+
+  // A receive that committed between planReceive() and commit() would be
+  // overwritten — decrypt() and decryptWith() must not overlap on a session
+  private checkRevision(revision: number) {
+    if (revision !== this.revision) throw new Error('Ratchet state changed while a message was being decrypted')
+    this.revision++
+  }
+
+  // ─── Capabilities ──────────────────────────────────────────
+
+  // Payload formats the peer reads — null sends bare JSON
+  peerFormats(): number | null {
+    const formats = (this.peerCapabilities?.f ?? 0) & READ_FORMATS
+    return formats === 0 ? null : formats
+  }
+
+  // Follows the peer's latest message: a peer that goes back to an older
+  // build stops advertising and gets only what that build reads. The
+  // advertisement is session metadata, so it is stripped from the payload.
+  private learnCapabilities({ pv, pf, ...payload }: MessagePayload): MessagePayload {
+    const caps = pv === undefined && pf === undefined ? LEGACY_CAPABILITIES : { v: pv ?? 0, f: pf ?? 0 }
+    const current = this.peerCapabilities
+    if (!current || current.v !== caps.v || current.f !== caps.f) {
+      this.peerCapabilities = caps
+      log.info(`[Recv] Peer speaks protocol v${caps.v}, features 0x${caps.f.toString(16)}`)
+    }
+    return payload
+  }
+}
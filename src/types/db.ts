@@ -4,27 +4,60 @@ export interface DbSettings {
   table: string      // Table name
   column: string     // Column for encrypted message
   idColumn: string   // Primary key column (default: 'id')
-  senderColumn: string // Column for sender fingerprint (server-side filtering)
+  senderColumn: string // Column for the mailbox tag (server-side filtering)
+  bucket: string     // Storage bucket for large attachments ('' = send inline)
   pollInterval: number // ms
 }
 
+// Framed and queued with our fingerprint in `s` and the route in `r`/`g`. On
+// the wire `s` is the route's current mailbox tag and `r`/`g` are dropped
+// (see useEnvelopes.address).
 export interface DbMessageEnvelope {
-  s: string // sender fingerprint (first 8 chars of base64 public key)
-  d: string // encrypted base64 ciphertext
+  s: string  // mailbox tag on the wire; our fingerprint while queued
+  r?: string // recipient fingerprint (queued only)
+  g?: string // group ID — d is a sender-key message, one copy per member (queued only)
+  d: string  // encrypted base64 ciphertext
+  v?: number // sender's protocol version (see protocol.ts; wire only)
+  m?: string // MAC over the wire envelope (see mailbox.ts; wire only)
 }
 
 export interface DbChunkEnvelope {
-  s: string  // sender fingerprint
+  s: string  // mailbox tag / our fingerprint, as above
+  r?: string // recipient fingerprint (queued only)
+  g?: string // group ID (queued only)
   t: 'chunk' // type discriminator
   mid: string // message ID (random 6-char string)
   seq: number // chunk sequence number (0-based)
   total: number // total number of chunks
   d: string  // chunk data (piece of encrypted base64 string)
+  v?: number // protocol version, as above
+  m?: string // MAC over the wire envelope, as above
 }
 
 export interface DbMessageRow {
   pk: string | number
-  data: string
+  sender: string // sender fingerprint, resolved from the mailbox tag — routes the row to its conversation
+  group?: string // group ID for group messages
+  data: DbMessageEnvelope // authenticated; chunked messages arrive reassembled
+  chunks?: Array<string | number> // rows of a reassembled group message, acknowledged with it
+}
+
+// One per conversation: our fingerprint and the peer's, and the mailbox key
+// their rows are tagged with (see mailbox.ts). A group has one route per other
+// member, tagged with the group ID.
+export interface DbRoute {
+  fingerprint: string
+  peerFingerprint: string
+  group?: string
+  mailbox?: Uint8Array // missing only on a group's own route, which is never written to
+}
+
+// A row in one of our mailboxes that failed authentication or decryption. It
+// is kept on the server (not processed, not deleted) until the user purges it.
+export interface QuarantinedRow {
+  pk: string | number
+  reason: string
+  at: number // when it was first seen
 }
 
 export type DbConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error'
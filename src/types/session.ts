@@ -0,0 +1,67 @@
+import type { ConnectionMode, TransportKind } from './transport'
+import type { Capabilities } from '../protocol'
+
+// Base64 key pair as stored in session JSON
+export interface SerializedKeyPair {
+  pub: string
+  sec: string
+}
+
+// Double Ratchet state as produced by RatchetSession.serialize()
+export interface RatchetData {
+  kp: SerializedKeyPair   // our identity key
+  peer: string            // peer identity public key
+  rk: string              // root key
+  sc: string              // sending chain key
+  rc: string              // receiving chain key
+  rkp: SerializedKeyPair  // our current ratchet key pair
+  rp: string              // peer's current ratchet public key
+  ns: number
+  nr: number
+  pn: number
+  sk: [string, string][] // skipped message keys: [dh:n, key]
+  sn: number
+  rn: number
+  pc?: Capabilities       // protocol version and features the peer advertised
+}
+
+// One conversation: ratchet state plus local chat settings. This is the JSON
+// that the web app's exportSession/importSession and the CLI's session file use.
+// Older formats are upgraded by migrateSession() in protocol.ts.
+export interface SessionData extends RatchetData {
+  v: 3
+  cm: ConnectionMode
+  id?: string   // conversation ID — keys the stored message history
+  name?: string // local contact label
+  vf?: boolean  // safety number verified
+  ttl?: number  // disappearing-message timer in seconds
+}
+
+// One sender-key chain as produced by SenderKey.serialize()
+export interface SenderKeyData {
+  spk: string            // signing public key — also identifies the chain
+  ssk?: string           // signing secret key (our own chain only)
+  ck: string             // chain key for message n
+  n: number
+  sk: [number, string][] // skipped message keys: [n, key]
+}
+
+// Sender keys of one group as produced by GroupSession.serialize()
+export interface GroupKeysData {
+  own: SenderKeyData
+  keys: Record<string, SenderKeyData> // member identity key → their chain
+  sent: string[]                      // members that have our current chain
+}
+
+// A group chat: membership is decided by its owner and announced over the
+// pairwise sessions; messages are encrypted once with our sender key
+export interface GroupData {
+  id: string
+  name: string
+  cm: TransportKind
+  owner: string     // identity key of the member who created the group
+  members: string[] // identity keys, including ours
+  epoch: number     // bumped whenever someone leaves — sender keys rotate
+  ttl?: number      // disappearing-message timer in seconds
+  keys: GroupKeysData
+}
@@ -0,0 +1,70 @@
+import type { ComputedRef, Ref } from 'vue'
+import type { DbConnectionState, DbMessageRow, DbRoute, DbMessageEnvelope, DbChunkEnvelope, QuarantinedRow } from './db'
+
+export type TransportKind = 'supabase' | 'relay' | 'broadcast'
+
+// How a conversation exchanges ciphertext: copy/paste or an automatic transport
+export type ConnectionMode = 'manual' | TransportKind
+
+export interface TransportOptions {
+  routes: Ref<DbRoute[]> // one per conversation
+  onMessages: (messages: DbMessageRow[]) => void
+}
+
+export interface ChunkProgress {
+  mid: string
+  received: number
+  total: number
+}
+
+// Every automatic transport carries DbMessageEnvelope / DbChunkEnvelope frames
+// (see useEnvelopes) and exposes the same controls to App.vue.
+export interface Transport {
+  kind: TransportKind
+  connectionState: Ref<DbConnectionState>
+  connectionError: Ref<string>
+  isConnected: ComputedRef<boolean>
+  isConfigured: ComputedRef<boolean> // connected and ready to send/receive
+  isSyncing: Ref<boolean>
+  isListening: Ref<boolean>          // push delivery active (otherwise polling)
+  chunkProgress: Ref<ChunkProgress | null>
+  quarantine: Ref<QuarantinedRow[]> // rejected rows still on the server
+  rejectedCount: Ref<number>        // rows rejected since the app started
+
+  connect: () => Promise<boolean>
+  disconnect: () => void
+  sendMessage: (route: DbRoute, encryptedBase64: string, onProgress?: (sent: number, total: number) => void) => Promise<boolean>
+  // Sends envelopes[from..] in order; resolves to how many are stored, which is
+  // envelopes.length on success and the point to resume from otherwise.
+  // onStored receives the primary keys of stored rows, where the server names them.
+  sendEnvelopes: (
+    route: DbRoute,
+    envelopes: Array<DbMessageEnvelope | DbChunkEnvelope>,
+    from: number,
+    onProgress?: (sent: number, total: number) => void,
+    onStored?: (pks: Array<string | number>) => void
+  ) => Promise<number>
+  deleteMessage: (pk: string | number) => Promise<void> // acknowledge a delivered row, quarantined or not
+  rejectRow: (pk: string | number, reason: string) => void // quarantine a row that did not decrypt
+  purgeQuarantine: () => Promise<void>                     // delete quarantined rows from the server
+  startSync: () => void
+  stopSync: () => void
+}
+
+// A Realtime broadcast topic joined for ephemeral events (see presence.ts);
+// send is a no-op until the channel is subscribed
+export interface PresenceChannel {
+  send: (data: string) => void
+  leave: () => void
+}
+
+export interface RelaySettings {
+  url: string          // REST base URL (https://relay.example.com)
+  token: string        // optional bearer token
+  wsUrl: string        // optional WebSocket URL for push delivery
+  pollInterval: number // ms
+}
+
+export interface BroadcastSettings {
+  channel: string // BroadcastChannel name suffix — both tabs must match
+}
@@ -0,0 +1,53 @@
+import type { MessageHeader, MessagePayload, CryptoStage } from '../crypto'
+import type { PayloadOptions } from '../padding'
+import type { LogLevel, LogEntry } from '../log'
+import type { OpenedChunk } from '../files'
+
+// Work the crypto worker does for the main thread (see cryptoOps.ts). Keys
+// are derived on the main thread; only the heavy byte work is sent over.
+export type CryptoRequest =
+  | { op: 'seal'; key: Uint8Array; header: MessageHeader; payload: MessagePayload; options: PayloadOptions; formats: number | null }
+  | { op: 'open'; key: Uint8Array; encoded: string }
+  | { op: 'sealGroup'; key: Uint8Array; header: MessageHeader; payload: MessagePayload; options: PayloadOptions; formats: number | null; signingSecret: Uint8Array }
+  | { op: 'openGroup'; key: Uint8Array; encoded: string; signingKey: Uint8Array }
+  | { op: 'encode'; bytes: Uint8Array }   // bytes → base64 (attachments)
+  | { op: 'decode'; encoded: string }     // base64 → bytes
+  // A stored file's chunks, hashed in order under `stream` (see files.ts)
+  | { op: 'sealChunk'; stream: number; key: Uint8Array; prefix: Uint8Array; seq: number; last: boolean; plain: Uint8Array; padTo: number }
+  | { op: 'openChunk'; stream: number; key: Uint8Array; prefix: Uint8Array; seq: number; last: boolean; box: Uint8Array; keep: number }
+  | { op: 'digest'; stream: number }
+
+export type CryptoOp = CryptoRequest['op']
+
+export interface CryptoResults {
+  seal: string
+  open: MessagePayload | null
+  sealGroup: string
+  openGroup: MessagePayload | null
+  encode: string
+  decode: Uint8Array
+  sealChunk: Uint8Array
+  openChunk: OpenedChunk
+  digest: Uint8Array
+}
+
+// A result tagged with the op that produced it, so the client can match it
+// to the request it answers
+export type CryptoResult = { [Op in CryptoOp]: { op: Op; value: CryptoResults[Op] } }[CryptoOp]
+
+// main → worker
+export interface CryptoCall {
+  id: number
+  level: LogLevel // the worker logs at the page's level
+  request: CryptoRequest
+}
+
+// worker → main: any number of progress replies, then a result or an error.
+// The worker announces itself once its module has loaded, and forwards what
+// it logs to the page's log (redacted, see log.ts).
+export type CryptoReply =
+  | { id: 0; ready: true }
+  | { id: 0; log: LogEntry }
+  | { id: number; progress: { stage: CryptoStage; done: number; total: number } }
+  | { id: number; result: CryptoResult }
+  | { id: number; error: string }
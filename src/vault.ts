@@ -0,0 +1,84 @@
+import nacl from 'tweetnacl'
+import { scryptAsync } from '@noble/hashes/scrypt.js'
+import { encodeBase64, decodeBase64 } from 'tweetnacl-util'
+import { log } from './log'
+
+// ─── Types ───────────────────────────────────────────────────────
+
+export interface KdfParams {
+  alg: 'scrypt'
+  N: number    // CPU/memory cost (power of two)
+  r: number    // block size
+  p: number    // parallelization
+  salt: string // base64
+}
+
+// Passphrase-sealed JSON blob (localStorage + export/import)
+export interface SealedBlob {
+  v: 3
+  kdf: KdfParams
+  nonce: string // base64
+  box: string   // base64 nacl.secretbox(JSON)
+}
+
+// ~32 MB of memory per derivation — slow enough to make guessing expensive
+const DEFAULT_N = 2 ** 15
+const DEFAULT_R = 8
+const DEFAULT_P = 1
+
+// ─── Key Derivation ──────────────────────────────────────────────
+
+export function newKdfParams(): KdfParams {
+  return {
+    alg: 'scrypt',
+    N: DEFAULT_N,
+    r: DEFAULT_R,
+    p: DEFAULT_P,
+    salt: encodeBase64(nacl.randomBytes(16)),
+  }
+}
+
+export async function deriveVaultKey(
+  passphrase: string,
+  params: KdfParams,
+  onProgress?: (fraction: number) => void
+): Promise<Uint8Array> {
+  log.info(`[Vault] Deriving key (scrypt N=${params.N}, r=${params.r}, p=${params.p})...`)
+  const started = Date.now()
+
+  const key = await scryptAsync(passphrase.normalize('NFKC'), decodeBase64(params.salt), {
+    N: params.N,
+    r: params.r,
+    p: params.p,
+    dkLen: nacl.secretbox.keyLength,
+    onProgress,
+  })
+
+  log.info(`[Vault] Key derived in ${Date.now() - started} ms`)
+  return key
+}
+
+// ─── Seal / Open ─────────────────────────────────────────────────
+
+export function sealJson(key: Uint8Array, params: KdfParams, value: unknown): SealedBlob {
+  const plainBytes = new TextEncoder().encode(JSON.stringify(value))
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength)
+  const box = nacl.secretbox(plainBytes, nonce, key)
+
+  return { v: 3, kdf: params, nonce: encodeBase64(nonce), box: encodeBase64(box) }
+}
+
+// Returns null on a wrong passphrase or tampered blob
+export function openJson<T>(key: Uint8Array, blob: SealedBlob): T | null {
+  const plainBytes = nacl.secretbox.open(decodeBase64(blob.box), decodeBase64(blob.nonce), key)
+  if (!plainBytes) {
+    log.error('[Vault] Unlock FAILED — wrong passphrase or tampered data')
+    return null
+  }
+  return JSON.parse(new TextDecoder().decode(plainBytes)) as T
+}
+
+export function isSealed(value: unknown): value is SealedBlob {
+  const v = value as Partial<SealedBlob> | null
+  return !!v && v.v === 3 && typeof v.box === 'string' && typeof v.nonce === 'string' && v.kdf?.alg === 'scrypt'
+}
@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite'
+
+// Builds the headless CLI into a single Node script (dist-cli/xchat.js)
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: 'cli/xchat.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'xchat.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+  ssr: {
+    // Bundle dependencies — several are CommonJS without named ESM exports
+    noExternal: true,
+  },
+})